@@ -0,0 +1,165 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Page } from '@playwright/test';
+import { debugLog } from './ai-client';
+import { SomCommand, TypedSelector } from './som-types';
+
+const ACT_CACHE_DIR_ENV = 'AI_PLAYWRIGHT_ACT_CACHE_DIR';
+const ACT_CACHE_VERSION = 1;
+
+export interface CachedActStep {
+  command: SomCommand;
+  selector?: TypedSelector;
+}
+
+export interface ActCacheEntry {
+  version: number;
+  objective: string;
+  fingerprint: string;
+  steps: CachedActStep[];
+  updatedAt: string;
+}
+
+export function getActCacheDir(): string | undefined {
+  const raw = process.env[ACT_CACHE_DIR_ENV]?.trim();
+  return raw ? path.resolve(raw) : undefined;
+}
+
+/**
+ * Identifies the page an objective ran against. Query strings and hashes are ignored
+ * so that session ids and tracking params do not defeat the cache.
+ */
+export function computePageFingerprint(page: Page): string {
+  const url = page.url();
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+function resolveEntryPath(cacheDir: string, objective: string, fingerprint: string): string {
+  const hash = createHash('sha1').update(`${fingerprint}\n${objective}`).digest('hex');
+  return path.join(cacheDir, `${hash}.json`);
+}
+
+export async function readActCacheEntry(
+  cacheDir: string,
+  objective: string,
+  fingerprint: string,
+): Promise<ActCacheEntry | undefined> {
+  const filePath = resolveEntryPath(cacheDir, objective, fingerprint);
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+
+  try {
+    const entry = JSON.parse(raw) as ActCacheEntry;
+    if (
+      entry.version !== ACT_CACHE_VERSION ||
+      entry.objective !== objective ||
+      entry.fingerprint !== fingerprint ||
+      !Array.isArray(entry.steps) ||
+      entry.steps.length === 0
+    ) {
+      return undefined;
+    }
+    return entry;
+  } catch (error) {
+    debugLog('Ignoring unreadable ai.act cache entry', { filePath, error: (error as Error).message });
+    return undefined;
+  }
+}
+
+export async function writeActCacheEntry(
+  cacheDir: string,
+  objective: string,
+  fingerprint: string,
+  steps: CachedActStep[],
+): Promise<void> {
+  const filePath = resolveEntryPath(cacheDir, objective, fingerprint);
+  const entry: ActCacheEntry = {
+    version: ACT_CACHE_VERSION,
+    objective,
+    fingerprint,
+    steps,
+    updatedAt: new Date().toISOString(),
+  };
+
+  try {
+    await fs.mkdir(cacheDir, { recursive: true });
+    // Write to a temp file first so parallel workers never observe a partial entry
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entry, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+    debugLog('Wrote ai.act cache entry', { filePath, steps: steps.length });
+  } catch (error) {
+    debugLog('Failed to write ai.act cache entry', { filePath, error: (error as Error).message });
+  }
+}
+
+/**
+ * Convert an executed command into a replayable cache step.
+ * Returns undefined when the command cannot be replayed without the SoM map.
+ */
+function toCachedActStep(command: SomCommand, selector?: TypedSelector): CachedActStep | undefined {
+  if (command.elementRelativeAbsoluteCoords) {
+    return undefined;
+  }
+  if (!command.elementRef) {
+    return { command };
+  }
+  if (!selector) {
+    return undefined;
+  }
+  const { elementRef, ...rest } = command;
+  return { command: rest, selector };
+}
+
+export interface ActRecording {
+  record(command: SomCommand, selector?: TypedSelector): void;
+  /** Keep everything recorded so far across later resets (completed sub-steps). */
+  checkpoint(): void;
+  /** Drop the commands recorded since the last checkpoint. */
+  reset(): void;
+  getReplayableSteps(): CachedActStep[] | undefined;
+}
+
+/**
+ * Collects the commands executed by one ai.act call. A single non-replayable command
+ * (e.g. a canvas-relative click) makes the whole recording ineligible for caching.
+ */
+export function createActRecording(initialSteps: CachedActStep[] = []): ActRecording {
+  let steps = [...initialSteps];
+  let replayable = true;
+  let saved = { steps: [] as CachedActStep[], replayable: true };
+
+  return {
+    record(command: SomCommand, selector?: TypedSelector): void {
+      const step = toCachedActStep(command, selector);
+      if (step) {
+        steps.push(step);
+      } else {
+        replayable = false;
+      }
+    },
+
+    checkpoint(): void {
+      saved = { steps: [...steps], replayable };
+    },
+
+    reset(): void {
+      steps = [...saved.steps];
+      replayable = saved.replayable;
+    },
+
+    getReplayableSteps(): CachedActStep[] | undefined {
+      return replayable && steps.length > 0 ? steps : undefined;
+    },
+  };
+}
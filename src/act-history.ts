@@ -0,0 +1,86 @@
+import { CommandRunStatus, SemanticCommandResult, SomCommand } from './som-types';
+
+// Older iterations are dropped so the history stays a small part of the prompt
+const HISTORY_MAX_ITERATIONS = 8;
+const HISTORY_TEXT_MAX_CHARS = 160;
+
+export interface ActHistory {
+  /** Begin a new LLM iteration; entries recorded from now on belong to it. */
+  startIteration(): void;
+  /** Note a command the LLM issued and how it ended. */
+  recordCommand(command: SomCommand, result: SemanticCommandResult): void;
+  /** Note an iteration outcome other than a command (waits, SoM refreshes, retries). */
+  recordEvent(event: string): void;
+  /** Prompt lines describing the earlier iterations, empty before the first one completes. */
+  format(): string[];
+}
+
+function clip(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length <= HISTORY_TEXT_MAX_CHARS ? singleLine : `${singleLine.slice(0, HISTORY_TEXT_MAX_CHARS)}...`;
+}
+
+function describeCommand(command: SomCommand): string {
+  const target = command.elementRef ? ` [${command.elementRef}]` : '';
+  const value = command.value ? ` "${clip(command.value)}"` : '';
+  return `${command.action}${target}${value}`;
+}
+
+function describeOutcome(result: SemanticCommandResult): string {
+  if (result.status === CommandRunStatus.SUCCESS) {
+    return 'success';
+  }
+  const error = result.error ?? result.failedAttempts?.[result.failedAttempts.length - 1]?.error;
+  return error ? `failure: ${clip(error)}` : 'failure';
+}
+
+/**
+ * Compact record of what earlier ai.act iterations did, so follow-up prompts can steer the LLM
+ * away from commands that already failed.
+ */
+export function createActHistory(): ActHistory {
+  const iterations: string[][] = [];
+  let omitted = 0;
+
+  const current = (): string[] => {
+    if (iterations.length === 0) {
+      iterations.push([]);
+    }
+    return iterations[iterations.length - 1];
+  };
+
+  return {
+    startIteration(): void {
+      if (iterations.length > 0 && current().length === 0) {
+        return;
+      }
+      iterations.push([]);
+      if (iterations.length > HISTORY_MAX_ITERATIONS + 1) {
+        iterations.shift();
+        omitted += 1;
+      }
+    },
+
+    recordCommand(command: SomCommand, result: SemanticCommandResult): void {
+      current().push(`${describeCommand(command)} -> ${describeOutcome(result)}`);
+    },
+
+    recordEvent(event: string): void {
+      current().push(clip(event));
+    },
+
+    format(): string[] {
+      const completed = iterations.filter((entries) => entries.length > 0);
+      if (completed.length === 0) {
+        return [];
+      }
+      const firstNumber = omitted + 1;
+      return [
+        'PREVIOUS ITERATIONS for this objective (oldest first). The page may have changed since; do not repeat a command that failed, try a different element or approach:',
+        ...(omitted > 0 ? [`(${omitted} earlier iterations omitted)`] : []),
+        ...completed.map((entries, index) => `#${firstNumber + index}: ${entries.join('; ')}`),
+        '',
+      ];
+    },
+  };
+}
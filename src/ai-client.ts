@@ -1,7 +1,10 @@
 import { AxiosError } from 'axios';
-import { AiActionResult, InteractionAction, SomCommand } from './types';
-import { LLMRequest } from './llm-providers/llm-provider';
-import { resolveActiveLLMProvider } from './llm-providers/provider-registry';
+import { AiActionResult, InteractionAction, SomCommand, SomVerification } from './types';
+import { VerificationType } from './som-types';
+import { LLMProvider, LLMRequest, LLMUsage } from './llm-providers/llm-provider';
+import { ProviderSelection, resolveLLMProviderChain } from './llm-providers/provider-registry';
+import type { AiSettings } from './ai-config';
+import { redactSecrets, redactValue } from './secrets';
 
 const DEBUG_FLAG = 'AI_PLAYWRIGHT_DEBUG';
 
@@ -16,16 +19,25 @@ function isDebugEnvEnabled(): boolean {
 
 function debugLog(...messages: unknown[]): void {
   if (isDebugEnvEnabled()) {
-    console.log('[ai-wright]', ...messages);
+    console.log('[ai-wright]', ...messages.map((message) => redactValue(message)));
   }
 }
 
 const DEFAULT_LLM_TIMEOUT_MS = 120_000;
+const DEFAULT_LLM_RETRIES = 3;
 const NAVIGATION_TIMEOUT_MS = 30_000;
 const COMMAND_TIMEOUT_MS = 30_000;
 
 type AiClientRequest = LLMRequest;
 
+export interface AiCallOptions {
+  provider?: ProviderSelection;
+  settings?: AiSettings;
+}
+
+// Validated LLM result plus the provider (and model) that produced it, the raw reply and the tokens it consumed
+export type AiCallResult = AiActionResult & { provider: string; model?: string; raw: string; usage?: LLMUsage };
+
 function parseTimeout(value: string | undefined, fallback: number): number {
   if (!value) {
     return fallback;
@@ -34,8 +46,22 @@ function parseTimeout(value: string | undefined, fallback: number): number {
   return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
 }
 
-function getLLMCallTimeout(): number {
-  return parseTimeout(process.env.LLM_CALL_TIMEOUT, DEFAULT_LLM_TIMEOUT_MS);
+export function getLLMCallTimeout(settings?: AiSettings): number {
+  return settings?.timeouts?.llm_call ?? parseTimeout(process.env.LLM_CALL_TIMEOUT, DEFAULT_LLM_TIMEOUT_MS);
+}
+
+// Undefined when neither the settings nor the environment set a retry count
+function getConfiguredLLMCallRetries(settings?: AiSettings): number | undefined {
+  const configured = settings?.retries?.llm_call;
+  if (configured !== undefined) {
+    return Math.max(0, Math.floor(configured));
+  }
+  const raw = process.env.AI_PLAYWRIGHT_MAX_LLM_RETRIES?.trim();
+  if (!raw) {
+    return undefined;
+  }
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : undefined;
 }
 
 async function withRetry<T>(
@@ -80,6 +106,28 @@ function validateSomCommand(command: SomCommand): void {
   validateCoordinate('SomCommand.toCoord', command.toCoord);
 }
 
+function validateSomVerification(verification: SomVerification): void {
+  if (typeof verification !== 'object' || verification === null) {
+    throw new Error('verifications must contain SomVerification objects.');
+  }
+  if (!Object.values(VerificationType).includes(verification.verificationType)) {
+    throw new Error(`Invalid VerificationType: ${verification.verificationType}`);
+  }
+  if (verification.elementRef !== undefined && typeof verification.elementRef !== 'string') {
+    throw new Error('SomVerification.elementRef must be a string.');
+  }
+  if (verification.selector !== undefined && typeof verification.selector !== 'string') {
+    throw new Error('SomVerification.selector must be a string.');
+  }
+  if (
+    verification.expected !== undefined &&
+    typeof verification.expected !== 'string' &&
+    typeof verification.expected !== 'number'
+  ) {
+    throw new Error('SomVerification.expected must be a string or number.');
+  }
+}
+
 function validateAiActionResult(payload: unknown): AiActionResult {
   if (typeof payload !== 'object' || payload === null) {
     throw new Error('LLM response is not a JSON object.');
@@ -103,6 +151,28 @@ function validateAiActionResult(payload: unknown): AiActionResult {
     result.commandsToRun.forEach((command) => validateSomCommand(command));
   }
 
+  if (data.verifications !== undefined) {
+    if (!Array.isArray(data.verifications)) {
+      throw new Error('verifications must be an array of SomVerification.');
+    }
+    result.verifications = data.verifications as SomVerification[];
+    result.verifications.forEach((verification) => validateSomVerification(verification));
+  }
+
+  if (data.elementRef !== undefined) {
+    if (typeof data.elementRef !== 'string') {
+      throw new Error('elementRef must be a string.');
+    }
+    result.elementRef = data.elementRef;
+  }
+
+  if (data.notFoundReason !== undefined) {
+    if (typeof data.notFoundReason !== 'string') {
+      throw new Error('notFoundReason must be a string.');
+    }
+    result.notFoundReason = data.notFoundReason;
+  }
+
   if (data.verificationSuccess !== undefined) {
     if (typeof data.verificationSuccess !== 'boolean') {
       throw new Error('verificationSuccess must be a boolean.');
@@ -129,6 +199,38 @@ function validateAiActionResult(payload: unknown): AiActionResult {
     });
   }
 
+  if (data.extractedData !== undefined) {
+    // Shape is checked against the caller's schema by ai.extract
+    result.extractedData = data.extractedData;
+  }
+
+  if (data.requirementResults !== undefined) {
+    if (!Array.isArray(data.requirementResults)) {
+      throw new Error('requirementResults must be an array.');
+    }
+    result.requirementResults = (data.requirementResults as unknown[]).map((item) => {
+      const entry = item as Record<string, unknown>;
+      if (typeof entry !== 'object' || entry === null || typeof entry.index !== 'number') {
+        throw new Error('requirementResults entries must include a numeric index.');
+      }
+      if (typeof entry.verificationSuccess !== 'boolean') {
+        throw new Error('requirementResults verificationSuccess must be a boolean.');
+      }
+      if (typeof entry.confidence !== 'number' || entry.confidence < 0 || entry.confidence > 100) {
+        throw new Error('requirementResults confidence must be a number between 0 and 100.');
+      }
+      if (entry.verificationReason !== undefined && typeof entry.verificationReason !== 'string') {
+        throw new Error('requirementResults verificationReason must be a string.');
+      }
+      return {
+        index: entry.index,
+        verificationSuccess: entry.verificationSuccess,
+        confidence: entry.confidence,
+        verificationReason: entry.verificationReason as string | undefined,
+      };
+    });
+  }
+
   if (data.shouldWait !== undefined) {
     if (typeof data.shouldWait !== 'boolean') {
       throw new Error('shouldWait must be a boolean.');
@@ -157,6 +259,27 @@ function validateAiActionResult(payload: unknown): AiActionResult {
     result.stepCompleted = data.stepCompleted;
   }
 
+  if (data.requiresFurtherAction !== undefined) {
+    if (typeof data.requiresFurtherAction !== 'boolean') {
+      throw new Error('requiresFurtherAction must be a boolean.');
+    }
+    result.requiresFurtherAction = data.requiresFurtherAction;
+  }
+
+  if (data.completedObjectiveSummary !== undefined) {
+    if (typeof data.completedObjectiveSummary !== 'string') {
+      throw new Error('completedObjectiveSummary must be a string.');
+    }
+    result.completedObjectiveSummary = data.completedObjectiveSummary;
+  }
+
+  if (data.nextObjective !== undefined) {
+    if (typeof data.nextObjective !== 'string') {
+      throw new Error('nextObjective must be a string.');
+    }
+    result.nextObjective = data.nextObjective;
+  }
+
   if (data.confidence !== undefined) {
     if (typeof data.confidence !== 'number' || data.confidence < 0 || data.confidence > 100) {
       throw new Error('confidence must be a number between 0 and 100.');
@@ -174,10 +297,12 @@ function validateAiActionResult(payload: unknown): AiActionResult {
   return result;
 }
 
-export async function callAiAction(request: AiClientRequest): Promise<AiActionResult> {
-  const provider = resolveActiveLLMProvider();
-  const timeoutMs = getLLMCallTimeout();
-
+async function callProvider(
+  provider: LLMProvider,
+  request: AiClientRequest,
+  timeoutMs: number,
+  retries: number,
+): Promise<Omit<AiCallResult, 'provider'>> {
   debugLog('Calling AI action', {
     provider: provider.name,
     systemPromptLength: request.systemPrompt.length,
@@ -185,32 +310,78 @@ export async function callAiAction(request: AiClientRequest): Promise<AiActionRe
     hasImage: Boolean(request.image),
   });
 
-  const raw = await withRetry(async () => {
-    const content = await provider.callLLM(request, { timeoutMs });
-    if (!content) {
+  const response = await withRetry(async () => {
+    const reply = await provider.callLLM(request, { timeoutMs });
+    if (!reply?.content) {
       throw new Error('LLM provider returned an empty response.');
     }
-    debugLog('Received LLM response', { provider: provider.name, length: content.length });
-    debugLog('LLM raw response content', content);
-    return content;
-  });
+    debugLog('Received LLM response', {
+      provider: provider.name,
+      model: reply.model,
+      length: reply.content.length,
+      usage: reply.usage,
+    });
+    debugLog('LLM raw response content', reply.content);
+    return reply;
+  }, retries);
 
   let parsed: unknown;
   try {
-    parsed = JSON.parse(raw);
+    parsed = JSON.parse(response.content);
   } catch (error) {
     throw new Error(`Failed to parse LLM response as JSON: ${(error as Error).message}`);
   }
 
-  return validateAiActionResult(parsed);
+  return { ...validateAiActionResult(parsed), model: response.model, raw: response.content, usage: response.usage };
+}
+
+export async function callAiAction(request: AiClientRequest, options: AiCallOptions = {}): Promise<AiCallResult> {
+  const providers = resolveLLMProviderChain(options.provider);
+  const timeoutMs = getLLMCallTimeout(options.settings);
+  const configuredRetries = getConfiguredLLMCallRetries(options.settings);
+  // Last line of defense: secrets in objectives, element maps or file contents never leave the process
+  const redacted = {
+    ...request,
+    systemPrompt: redactSecrets(request.systemPrompt),
+    userPrompt: redactSecrets(request.userPrompt),
+  };
+  let lastError: unknown;
+
+  for (let index = 0; index < providers.length; index++) {
+    const provider = providers[index];
+    const hasFallback = index < providers.length - 1;
+    try {
+      // Unless retries are configured, hand the request over to the fallback instead of retrying a failing provider
+      const retries = configuredRetries ?? (hasFallback ? 0 : DEFAULT_LLM_RETRIES);
+      const result = await callProvider(provider, redacted, timeoutMs, retries);
+      return { ...result, provider: provider.name };
+    } catch (error) {
+      lastError = error;
+      if (!hasFallback) {
+        break;
+      }
+      debugLog('LLM provider failed; falling back to next provider', {
+        provider: provider.name,
+        nextProvider: providers[index + 1].name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (providers.length > 1) {
+    const message = lastError instanceof Error ? lastError.message : String(lastError);
+    throw new Error(`All LLM providers failed (${providers.map((p) => p.name).join(', ')}). Last error: ${message}`);
+  }
+  throw lastError;
 }
 
 export { isDebugEnvEnabled as isDebugEnabled, debugLog };
 
-export function getNavigationTimeout(): number {
-  return Math.max(parseTimeout(process.env.NAVIGATION_COMMAND_TIMEOUT, NAVIGATION_TIMEOUT_MS), 0);
+export function getNavigationTimeout(settings?: AiSettings): number {
+  const timeout = settings?.timeouts?.navigation ?? parseTimeout(process.env.NAVIGATION_COMMAND_TIMEOUT, NAVIGATION_TIMEOUT_MS);
+  return Math.max(timeout, 0);
 }
 
-export function getCommandTimeout(): number {
-  return Math.max(parseTimeout(process.env.COMMAND_EXEC_TIMEOUT, COMMAND_TIMEOUT_MS), 0);
+export function getCommandTimeout(settings?: AiSettings): number {
+  return Math.max(settings?.timeouts?.command ?? parseTimeout(process.env.COMMAND_EXEC_TIMEOUT, COMMAND_TIMEOUT_MS), 0);
 }
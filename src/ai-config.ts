@@ -0,0 +1,48 @@
+import type { ProviderSelection } from './llm-providers/provider-registry';
+
+// All values in milliseconds
+export interface AiTimeouts {
+  llm_call?: number;  // LLM_CALL_TIMEOUT
+  command?: number;  // COMMAND_EXEC_TIMEOUT
+  navigation?: number;  // NAVIGATION_COMMAND_TIMEOUT
+  test_extension?: number;  // AI_PLAYWRIGHT_TEST_TIMEOUT_MS; 0 disables extending the test timeout
+}
+
+export interface AiRetries {
+  wait?: number;  // AI_PLAYWRIGHT_MAX_WAIT_RETRIES
+  failure?: number;  // AI_PLAYWRIGHT_MAX_FAILURE_RETRIES
+  objective_iterations?: number;  // AI_PLAYWRIGHT_MAX_OBJECTIVE_ITERATIONS
+  llm_call?: number;  // AI_PLAYWRIGHT_MAX_LLM_RETRIES; retries of a failed LLM request on the same provider
+}
+
+export interface AiScreenshotSettings {
+  quality?: number;  // JPEG quality (0-100) of the screenshots sent to the LLM
+  mask?: string[];  // Selectors of regions to paint over; [data-ai-mask] elements are always masked
+  mask_sensitive?: boolean;  // AI_PLAYWRIGHT_MASK_SENSITIVE; paint over password and credit card fields
+  mask_secrets?: boolean;  // AI_PLAYWRIGHT_MASK_SECRETS; cover fields and text showing a registered secret
+}
+
+/**
+ * Limits that take precedence over the environment variables for the calls they are passed to.
+ */
+export interface AiSettings {
+  timeouts?: AiTimeouts;
+  retries?: AiRetries;
+  screenshot?: AiScreenshotSettings;
+}
+
+export interface AiConfig extends AiSettings {
+  provider?: ProviderSelection;
+  logger?: (message: string) => void;
+  cache?: boolean;
+  codegen?: boolean;
+  secrets?: Record<string, string>;  // Registered process-wide, as with ai.registerSecret
+}
+
+export function mergeSettings(base: AiSettings, override?: AiSettings): AiSettings {
+  return {
+    timeouts: { ...base.timeouts, ...override?.timeouts },
+    retries: { ...base.retries, ...override?.retries },
+    screenshot: { ...base.screenshot, ...override?.screenshot },
+  };
+}
@@ -0,0 +1,296 @@
+import { createHash } from 'crypto';
+import { mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { debugLog } from './ai-client';
+import { redactSecrets, secretsToCode } from './secrets';
+
+const CODEGEN_FLAG = 'AI_PLAYWRIGHT_CODEGEN';
+const CODEGEN_REWRITE_FLAG = 'AI_PLAYWRIGHT_CODEGEN_REWRITE';
+const RETRY_ANNOTATION_PATTERN = /\s+\((after scroll|with force|after stability wait)\)$/;
+const ACT_CALL_PATTERN = /await\s+[\w$.]*\bact\s*\(/g;
+const TODO_MARKER = '// TODO(ai-wright):';
+// Rewrites recorded by all workers for a spec, merged under a lock so parallel workers add up
+const REWRITE_JOURNAL_DIR = path.join(os.tmpdir(), 'ai-wright-rewrites');
+const JOURNAL_LOCK_TIMEOUT_MS = 10_000;
+const JOURNAL_LOCK_STALE_MS = 30_000;
+
+export interface CallSite {
+  file: string;
+  line: number;
+  column: number;
+}
+
+type PendingRewrite = CallSite & { snippet: string };
+
+interface RewriteJournal {
+  sourceHash: string;  // Entries recorded against another version of the spec are dropped
+  rewrites: PendingRewrite[];
+}
+
+const pendingRewrites = new Map<string, PendingRewrite[]>();
+let exitHookRegistered = false;
+
+function isFlagEnabled(name: string): boolean {
+  const value = process.env[name];
+  if (!value) {
+    return false;
+  }
+  const normalized = value.toLowerCase();
+  return normalized === '1' || normalized === 'true' || normalized === 'yes' || normalized === 'on';
+}
+
+export function isCodegenEnabled(): boolean {
+  return isFlagEnabled(CODEGEN_FLAG) || isFlagEnabled(CODEGEN_REWRITE_FLAG);
+}
+
+export function isSpecRewriteEnabled(): boolean {
+  return isFlagEnabled(CODEGEN_REWRITE_FLAG);
+}
+
+/**
+ * Locate the spec file line that invoked the library, using the current stack trace.
+ * Must be called synchronously at the start of the public API call.
+ */
+export function captureCallSite(): CallSite | undefined {
+  const stack = new Error().stack?.split('\n').slice(1) ?? [];
+  const libraryDir = path.resolve(__dirname);
+
+  for (const frame of stack) {
+    const match = /\(?([^\s()]+):(\d+):(\d+)\)?\s*$/.exec(frame.trim());
+    if (!match) {
+      continue;
+    }
+    const file = match[1].startsWith('file://') ? match[1].slice('file://'.length) : match[1];
+    if (
+      file.startsWith('node:') ||
+      file.includes(`${path.sep}node_modules${path.sep}`) ||
+      path.resolve(file).startsWith(libraryDir)
+    ) {
+      continue;
+    }
+    return { file, line: Number(match[2]), column: Number(match[3]) };
+  }
+  return undefined;
+}
+
+function toStatements(command: string): string[] {
+  return command
+    .trim()
+    .split(/;\s+(?=await\s|expect\(|page = )/)
+    .map((statement) => statement.trim().replace(RETRY_ANNOTATION_PATTERN, '').replace(/;$/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Turn executed Playwright command strings into a ready-to-paste TypeScript snippet.
+ * Commands that are not valid code (or still depend on SoM annotations) become TODO comments.
+ * Secrets stay out of the snippet: their values are read back through ai.secret() when it runs.
+ */
+export function buildPlaywrightSnippet(objective: string, commands: string[], step: string = 'ai.act'): string {
+  const lines = [`// ${step}: ${redactSecrets(objective).replace(/\s*\n\s*/g, ' ')}`];
+  for (const command of commands) {
+    for (const statement of toStatements(redactSecrets(command))) {
+      const isCode =
+        statement.startsWith('await ') ||
+        statement.startsWith('expect(') ||
+        statement.startsWith("page.once('dialog'") ||
+        statement.startsWith('page = ');
+      if (!isCode || statement.includes('tc-som-id=')) {
+        lines.push(`${TODO_MARKER} no portable code for: ${statement}`);
+      } else {
+        lines.push(`${secretsToCode(statement)};`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * False when some step of the snippet could not be turned into code; such a snippet would not
+ * reproduce the ai.act call, so it must not replace the call in the spec file.
+ */
+export function isPortableSnippet(snippet: string): boolean {
+  return !snippet.includes(TODO_MARKER);
+}
+
+function findMatchingParen(source: string, openIndex: number): number {
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = openIndex; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+    if (char === '\'' || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+function applyRewrite(source: string, rewrite: PendingRewrite): string | undefined {
+  const lines = source.split('\n');
+  if (rewrite.line < 1 || rewrite.line > lines.length) {
+    return undefined;
+  }
+  const lineStart = lines.slice(0, rewrite.line - 1).reduce((offset, line) => offset + line.length + 1, 0);
+  const lineText = lines[rewrite.line - 1];
+
+  ACT_CALL_PATTERN.lastIndex = 0;
+  const match = ACT_CALL_PATTERN.exec(lineText);
+  // Only standalone `await ai.act(...)` statements are rewritten; assigned results are still used by the spec
+  if (!match || lineText.slice(0, match.index).trim() !== '') {
+    return undefined;
+  }
+
+  const start = lineStart + match.index;
+  const close = findMatchingParen(source, start + match[0].length - 1);
+  if (close < 0) {
+    return undefined;
+  }
+  const end = source[close + 1] === ';' ? close + 2 : close + 1;
+  const indent = lineText.slice(0, match.index);
+  const replacement = rewrite.snippet.split('\n').join(`\n${indent}`);
+  return `${source.slice(0, start)}${replacement}${source.slice(end)}`;
+}
+
+/**
+ * Path of the copy of a spec file that has its ai.act calls replaced: login.spec.ts -> login.spec.generated.ts.
+ */
+export function generatedSpecPath(file: string): string {
+  const extension = path.extname(file);
+  return `${file.slice(0, file.length - extension.length)}.generated${extension}`;
+}
+
+function sha1(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+// Runs in the exit hook, where only synchronous work completes
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function withLock(lockPath: string, action: () => void): void {
+  const deadline = Date.now() + JOURNAL_LOCK_TIMEOUT_MS;
+  while (true) {
+    try {
+      mkdirSync(lockPath);
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+    try {
+      // A worker killed while holding the lock leaves it behind
+      if (Date.now() - statSync(lockPath).mtimeMs > JOURNAL_LOCK_STALE_MS) {
+        rmSync(lockPath, { recursive: true, force: true });
+        continue;
+      }
+    } catch {
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${lockPath}`);
+    }
+    sleepSync(50);
+  }
+  try {
+    action();
+  } finally {
+    rmSync(lockPath, { recursive: true, force: true });
+  }
+}
+
+function readJournal(journalPath: string, sourceHash: string): RewriteJournal {
+  try {
+    const journal = JSON.parse(readFileSync(journalPath, 'utf8')) as RewriteJournal;
+    if (journal.sourceHash === sourceHash && Array.isArray(journal.rewrites)) {
+      return journal;
+    }
+  } catch {
+    // First rewrite for this spec
+  }
+  return { sourceHash, rewrites: [] };
+}
+
+/**
+ * Merge this worker's rewrites into the spec's journal and regenerate the .generated copy from the
+ * untouched spec, so line numbers recorded by every worker stay valid.
+ */
+function writeGeneratedSpec(file: string, rewrites: PendingRewrite[]): void {
+  const source = readFileSync(file, 'utf8');
+  const sourceHash = sha1(source);
+  const journalPath = path.join(REWRITE_JOURNAL_DIR, `${sha1(path.resolve(file))}.json`);
+  mkdirSync(REWRITE_JOURNAL_DIR, { recursive: true });
+
+  withLock(`${journalPath}.lock`, () => {
+    const byLine = new Map(readJournal(journalPath, sourceHash).rewrites.map((rewrite) => [rewrite.line, rewrite]));
+    rewrites.forEach((rewrite) => byLine.set(rewrite.line, rewrite));
+    const merged = [...byLine.values()];
+    writeFileSync(journalPath, JSON.stringify({ sourceHash, rewrites: merged }), 'utf8');
+
+    let generated = source;
+    // Bottom-up so earlier line numbers stay valid
+    for (const rewrite of merged.sort((a, b) => b.line - a.line)) {
+      generated = applyRewrite(generated, rewrite) ?? generated;
+    }
+    writeFileSync(generatedSpecPath(file), generated, 'utf8');
+  });
+}
+
+function applyPendingRewrites(): void {
+  for (const [file, rewrites] of pendingRewrites) {
+    try {
+      writeGeneratedSpec(file, rewrites);
+    } catch (error) {
+      debugLog(`Failed to write ${generatedSpecPath(file)}: ${(error as Error).message}`);
+    }
+  }
+  pendingRewrites.clear();
+}
+
+/**
+ * Queue replacing the ai.act call at the given call site with generated code in the spec's
+ * .generated copy, written when the worker process exits. Returns false when the call is not a
+ * standalone `await ai.act(...)` statement that can be replaced.
+ */
+export function scheduleSpecRewrite(callSite: CallSite, snippet: string): boolean {
+  const existing = pendingRewrites.get(callSite.file) ?? [];
+  if (existing.some((rewrite) => rewrite.line === callSite.line)) {
+    // Same call executed again (loops, retries) – keep the first recording
+    return true;
+  }
+  let source: string;
+  try {
+    source = readFileSync(callSite.file, 'utf8');
+  } catch {
+    return false;
+  }
+  if (applyRewrite(source, { ...callSite, snippet }) === undefined) {
+    return false;
+  }
+  existing.push({ ...callSite, snippet });
+  pendingRewrites.set(callSite.file, existing);
+  debugLog('Scheduled spec rewrite for ai.act call', callSite);
+
+  if (!exitHookRegistered) {
+    exitHookRegistered = true;
+    process.once('exit', applyPendingRewrites);
+  }
+  return true;
+}
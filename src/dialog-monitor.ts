@@ -0,0 +1,202 @@
+import type { Dialog, Page } from '@playwright/test';
+import { debugLog } from './ai-client';
+import { revealSecrets } from './secrets';
+import { CommandRunStatus, InteractionAction, SemanticCommandResult, SomCommand } from './som-types';
+
+const DIALOG_POLICY_ENV = 'AI_PLAYWRIGHT_DIALOG_POLICY';
+
+export type DialogPolicy = 'accept' | 'dismiss';
+
+export interface DialogInfo {
+  type: string;  // alert | confirm | prompt | beforeunload
+  message: string;
+  defaultValue?: string;  // prompt dialogs only
+}
+
+type DialogResponse = { accept: boolean; promptText?: string };
+
+// Page is an EventEmitter at runtime, but the public typings do not declare listenerCount
+type ListenerCounter = { listenerCount(event: string): number };
+
+interface PageDialogState {
+  holds: number;
+  pending?: Dialog;
+  // Responses registered before the dialog opened, consumed in order (mirrors page.once('dialog'))
+  armed: DialogResponse[];
+  waiters: Set<(info: DialogInfo) => void>;
+}
+
+const pageStates = new WeakMap<Page, PageDialogState>();
+
+export function getDialogPolicy(): DialogPolicy {
+  const value = process.env[DIALOG_POLICY_ENV]?.trim().toLowerCase();
+  if (!value || value === 'dismiss') {
+    return 'dismiss';
+  }
+  if (value === 'accept') {
+    return 'accept';
+  }
+  debugLog(`Ignoring ${DIALOG_POLICY_ENV}: expected "accept" or "dismiss"`, { value });
+  return 'dismiss';
+}
+
+export function isDialogAction(action: InteractionAction): boolean {
+  return action === InteractionAction.ACCEPT_DIALOG || action === InteractionAction.DISMISS_DIALOG;
+}
+
+function toDialogInfo(dialog: Dialog): DialogInfo {
+  const defaultValue = dialog.type() === 'prompt' ? dialog.defaultValue() : undefined;
+  return { type: dialog.type(), message: dialog.message(), ...(defaultValue ? { defaultValue } : {}) };
+}
+
+function respond(dialog: Dialog, response: DialogResponse): Promise<void> {
+  const promptText = response.promptText !== undefined ? revealSecrets(response.promptText) : undefined;
+  return response.accept ? dialog.accept(promptText) : dialog.dismiss();
+}
+
+function respondQuietly(dialog: Dialog, response: DialogResponse): void {
+  respond(dialog, response).catch((error: Error) => {
+    // Another dialog listener got there first
+    debugLog('Failed to handle dialog', { type: dialog.type(), error: error.message });
+  });
+}
+
+function applyDefaultPolicy(dialog: Dialog): void {
+  const policy = getDialogPolicy();
+  debugLog('Handling dialog with default policy', { ...toDialogInfo(dialog), policy });
+  respondQuietly(dialog, { accept: policy === 'accept' });
+}
+
+function getPageState(page: Page): PageDialogState {
+  const state = pageStates.get(page);
+  if (state) {
+    return state;
+  }
+  const created: PageDialogState = { holds: 0, armed: [], waiters: new Set() };
+  page.on('dialog', (dialog) => {
+    const armed = created.armed.shift();
+    if (armed) {
+      respondQuietly(dialog, armed);
+      return;
+    }
+    if (created.holds > 0) {
+      // Leave it open so ai.act can show it to the LLM; the page stays blocked until then
+      created.pending = dialog;
+      const info = toDialogInfo(dialog);
+      debugLog('Dialog opened during ai.act', { ...info });
+      created.waiters.forEach((notify) => notify(info));
+      created.waiters.clear();
+      return;
+    }
+    // Outside AI steps, dialog handlers registered by the test take precedence
+    if ((page as unknown as ListenerCounter).listenerCount('dialog') > 1) {
+      return;
+    }
+    applyDefaultPolicy(dialog);
+  });
+  pageStates.set(page, created);
+  return created;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function toPlaywrightCommand(response: DialogResponse): string {
+  const handling = response.accept
+    ? `dialog.accept(${response.promptText !== undefined ? quote(response.promptText) : ''})`
+    : 'dialog.dismiss()';
+  return `page.once('dialog', (dialog) => ${handling})`;
+}
+
+export interface DialogSession {
+  /** Keep dialogs on this page open for the LLM instead of handling them with the default policy. */
+  hold(page: Page): void;
+  getPending(page: Page): DialogInfo | undefined;
+  /** Resolves when a dialog opens on the page; cancel() drops the waiter. */
+  waitForDialog(page: Page): { promise: Promise<DialogInfo>; cancel(): void };
+  /** Accept or dismiss the open dialog, or arm the response for the next one when none is open. */
+  run(page: Page, command: SomCommand): Promise<SemanticCommandResult>;
+  release(): void;
+}
+
+/**
+ * Dialog handling for one ai.act call. The dialog listener stays installed on the page afterwards,
+ * so dialogs between AI steps are handled by AI_PLAYWRIGHT_DIALOG_POLICY.
+ */
+export function createDialogSession(): DialogSession {
+  const held = new Set<Page>();
+
+  return {
+    hold(page: Page): void {
+      if (held.has(page)) {
+        return;
+      }
+      held.add(page);
+      getPageState(page).holds += 1;
+    },
+
+    getPending(page: Page): DialogInfo | undefined {
+      const pending = pageStates.get(page)?.pending;
+      return pending ? toDialogInfo(pending) : undefined;
+    },
+
+    waitForDialog(page: Page): { promise: Promise<DialogInfo>; cancel(): void } {
+      const state = getPageState(page);
+      let notify: ((info: DialogInfo) => void) | undefined;
+      const promise = new Promise<DialogInfo>((resolve) => {
+        if (state.pending) {
+          resolve(toDialogInfo(state.pending));
+          return;
+        }
+        notify = resolve;
+        state.waiters.add(resolve);
+      });
+      return {
+        promise,
+        cancel: () => {
+          if (notify) {
+            state.waiters.delete(notify);
+          }
+        },
+      };
+    },
+
+    async run(page: Page, command: SomCommand): Promise<SemanticCommandResult> {
+      const state = getPageState(page);
+      const accept = command.action === InteractionAction.ACCEPT_DIALOG;
+      const response: DialogResponse = { accept, promptText: accept ? command.value : undefined };
+      const dialog = state.pending;
+      if (dialog) {
+        state.pending = undefined;
+        await respond(dialog, response);
+        debugLog(accept ? 'Accepted dialog' : 'Dismissed dialog', { ...toDialogInfo(dialog), promptText: response.promptText });
+      } else {
+        // Cached replays and pre-commands handle the dialog before the action that opens it
+        state.armed.push(response);
+      }
+      return {
+        failedAttempts: [],
+        successAttempt: { command: toPlaywrightCommand(response), status: CommandRunStatus.SUCCESS },
+        status: CommandRunStatus.SUCCESS,
+      };
+    },
+
+    release(): void {
+      for (const page of held) {
+        const state = getPageState(page);
+        state.holds -= 1;
+        if (state.holds > 0) {
+          continue;
+        }
+        state.armed.length = 0;
+        const pending = state.pending;
+        state.pending = undefined;
+        if (pending && !page.isClosed()) {
+          applyDefaultPolicy(pending);
+        }
+      }
+      held.clear();
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Download, Page } from '@playwright/test';
+import { debugLog } from './ai-client';
+import { resolveTestInfo } from './test-info';
+import type { AiDownload } from './types';
+
+type OutputTestInfo = { outputPath(...pathSegments: string[]): string };
+
+type DownloadContext = { test?: unknown; testInfo?: unknown };
+
+function hasOutputPath(value: unknown): value is OutputTestInfo {
+  return typeof value === 'object' && value !== null && typeof (value as OutputTestInfo).outputPath === 'function';
+}
+
+// The test's own output directory when running under Playwright Test, a temp directory otherwise
+async function resolveDownloadDir(context: DownloadContext): Promise<string> {
+  const testInfo = resolveTestInfo(context, hasOutputPath);
+  if (!testInfo) {
+    return fs.mkdtemp(path.join(os.tmpdir(), 'ai-wright-downloads-'));
+  }
+  const dir = testInfo.outputPath('downloads');
+  await fs.mkdir(dir, { recursive: true });
+  return dir;
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function uniquePath(dir: string, suggestedFilename: string): Promise<string> {
+  // suggestedFilename comes from the server; never let it escape the download directory
+  const name = path.basename(suggestedFilename) || 'download';
+  const { name: base, ext } = path.parse(name);
+  let candidate = path.join(dir, name);
+  for (let copy = 1; await pathExists(candidate); copy++) {
+    candidate = path.join(dir, `${base} (${copy})${ext}`);
+  }
+  return candidate;
+}
+
+export interface DownloadCollector {
+  watch(page: Page): void;
+  /** Stop watching and save every download that started, in start order. */
+  collect(): Promise<AiDownload[]>;
+  dispose(): void;
+}
+
+/**
+ * Captures the downloads started by the pages an ai.act call works on.
+ */
+export function createDownloadCollector(context: DownloadContext): DownloadCollector {
+  const listeners = new Map<Page, (download: Download) => void>();
+  const started: Download[] = [];
+
+  const dispose = (): void => {
+    listeners.forEach((listener, page) => page.off('download', listener));
+    listeners.clear();
+  };
+
+  return {
+    watch(page: Page): void {
+      if (listeners.has(page)) {
+        return;
+      }
+      const listener = (download: Download): void => {
+        debugLog('Download started', { url: download.url(), suggestedFilename: download.suggestedFilename() });
+        started.push(download);
+      };
+      page.on('download', listener);
+      listeners.set(page, listener);
+    },
+
+    async collect(): Promise<AiDownload[]> {
+      dispose();
+      if (started.length === 0) {
+        return [];
+      }
+      const dir = await resolveDownloadDir(context);
+      const saved: AiDownload[] = [];
+      for (const download of started.splice(0)) {
+        const target = await uniquePath(dir, download.suggestedFilename());
+        try {
+          await download.saveAs(target);
+          saved.push({ path: target, suggested_filename: download.suggestedFilename(), url: download.url() });
+        } catch (error) {
+          debugLog('Failed to save download', { url: download.url(), error: (error as Error).message });
+        }
+      }
+      return saved;
+    },
+
+    dispose,
+  };
+}
+
+export interface TextFile {
+  name: string;
+  content: string;
+}
+
+/**
+ * Read a CSV/JSON/text file (a path or an ai.act download) for ai.verify and ai.extract.
+ */
+export async function readTextFile(file: string | AiDownload): Promise<TextFile> {
+  const filePath = typeof file === 'string' ? file : file.path;
+  const buffer = await fs.readFile(filePath);
+  if (buffer.includes(0)) {
+    throw new Error(`${filePath} is not a text file; only text files such as CSV, JSON or plain text can be read.`);
+  }
+  return { name: path.basename(filePath), content: buffer.toString('utf8') };
+}
@@ -0,0 +1,71 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface HtmlRoute {
+  body: string;
+  status?: number;
+  contentType?: string;  // Defaults to text/html
+  headers?: Record<string, string>;
+}
+
+// Path (without query string) to page markup; '/' is served for the bare origin
+export type HtmlRoutes = Record<string, string | HtmlRoute>;
+
+export interface HtmlFixtureServer {
+  readonly origin: string;
+  /** Absolute URL of a path on this server, e.g. url('/login'). */
+  url(path?: string): string;
+  /** Add or replace a route while the server runs. */
+  route(path: string, content: string | HtmlRoute): void;
+  close(): Promise<void>;
+}
+
+function toRoute(content: string | HtmlRoute): HtmlRoute {
+  return typeof content === 'string' ? { body: content } : content;
+}
+
+/**
+ * Serve static pages from 127.0.0.1 on a free port. Unlike page.setContent, the pages have a
+ * real URL, so links, form submissions and reloads behave as on a deployed site.
+ */
+export async function startHtmlServer(routes: HtmlRoutes = {}): Promise<HtmlFixtureServer> {
+  const table = new Map<string, HtmlRoute>(Object.entries(routes).map(([path, content]) => [path, toRoute(content)]));
+
+  const server = http.createServer((request, response) => {
+    const path = (request.url ?? '/').split('?')[0];
+    const route = table.get(path);
+    if (!route) {
+      response.writeHead(404, { 'Content-Type': 'text/plain' });
+      response.end(`No fixture route for ${path}`);
+      return;
+    }
+    response.writeHead(route.status ?? 200, {
+      'Content-Type': route.contentType ?? 'text/html; charset=utf-8',
+      ...route.headers,
+    });
+    response.end(route.body);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+  const origin = `http://127.0.0.1:${port}`;
+
+  return {
+    origin,
+
+    url(path: string = '/'): string {
+      return `${origin}${path.startsWith('/') ? path : `/${path}`}`;
+    },
+
+    route(path: string, content: string | HtmlRoute): void {
+      table.set(path, toRoute(content));
+    },
+
+    close(): Promise<void> {
+      return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+}
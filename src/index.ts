@@ -1,31 +1,86 @@
-import type { Page } from '@playwright/test';
+import type { Locator, Page } from '@playwright/test';
 import { PageSoMHandler, registerPlaywrightExpect, SomReannotationRequiredError } from './som-handler';
 import { waitForPageStability } from './page-stability';
 import {
   AiActionResult,
   AiActResult,
+  AiActSubStep,
+  AiAssertion,
+  AiDownload,
+  AiExtractResult,
+  AiRequirementResult,
+  AiVerifyAllResult,
+  AiVerifyResult,
+  AiWaitUntilResult,
   CommandRunStatus,
   InteractionAction,
   SemanticCommandResult,
   SomCommand,
   SomElement,
+  SomVerification,
+  TypedSelector,
 } from './types';
+import { VerificationType } from './som-types';
 import {
+  AiCallResult,
   callAiAction,
   getCommandTimeout,
+  getLLMCallTimeout,
   getNavigationTimeout,
   isDebugEnabled,
   debugLog,
 } from './ai-client';
+import type { ProviderSelection } from './llm-providers/provider-registry';
+import { AiConfig, AiSettings, mergeSettings } from './ai-config';
+import {
+  ActCacheEntry,
+  CachedActStep,
+  computePageFingerprint,
+  createActRecording,
+  getActCacheDir,
+  readActCacheEntry,
+  writeActCacheEntry,
+} from './act-cache';
+import {
+  buildPlaywrightSnippet,
+  CallSite,
+  captureCallSite,
+  isCodegenEnabled,
+  isPortableSnippet,
+  isSpecRewriteEnabled,
+  scheduleSpecRewrite,
+} from './codegen';
+import { createUsageTracker, getTestUsage, resolveUsageTestInfo, setPriceTable, UsageTracker } from './usage';
+import { AiStepArtifacts, createStepArtifacts, formatStepTitle, runAiStep } from './report-artifacts';
+import { createTabTracker, isTabAction, TabInfo, TabTracker } from './tab-tracker';
+import { createDialogSession, DialogInfo, DialogSession, isDialogAction } from './dialog-monitor';
+import { resolveUploadCommand } from './upload-files';
+import { createActHistory } from './act-history';
+import { getSecret, redactSecrets, registerSecret, registerSecrets } from './secrets';
+import { resolveScreenshotMasks } from './screenshot-masks';
+import { createDownloadCollector, DownloadCollector, readTextFile, TextFile } from './downloads';
+import { describeSchema, ExtractSchema, JsonSchema, SchemaParser, validateWithSchema } from './json-schema';
+import {
+  createScrollCursor,
+  DEFAULT_SCROLL_MAX_CHUNKS,
+  mergeChunkItems,
+  ScrollExtractOptions,
+} from './scroll-extract';
 
 type PlaywrightExpect = typeof import('@playwright/test').expect;
 type PlaywrightTestApi = typeof import('@playwright/test').test;
 
 const SOM_ELEMENT_MAP_MAX_CHARS = 4000;
+const FILE_CONTENT_MAX_CHARS = 50000;
+const EXTRACT_CORRECTION_ATTEMPTS = 2;
+const LOCATE_CORRECTION_ATTEMPTS = 1;
 const DEFAULT_SCREENSHOT_QUALITY = 60;
 const DEFAULT_CONFIDENCE_THRESHOLD = 70;
 const DEFAULT_WAIT_RETRY_LIMIT = 2;
+const DEFAULT_FAILURE_RETRY_LIMIT = 0;
 const DEFAULT_OBJECTIVE_ITERATION_LIMIT = 5;
+const DEFAULT_WAIT_UNTIL_TIMEOUT_MS = 30_000;
+const DEFAULT_WAIT_UNTIL_INTERVAL_MS = 2_000;
 
 const DEFAULT_TEST_TIMEOUT_MS = 120_000;
 const DEFAULT_PAGE_TIMEOUT_MS = 30_000;
@@ -51,6 +106,24 @@ type TimeoutState = {
 
 const testTimeoutStates = new WeakMap<object, TimeoutState>();
 const pageTimeoutStates = new WeakMap<object, TimeoutState>();
+// Tab each successful command ran on (for switchTab / closeTab: the tab it left active), so
+// generated code can follow popups and tab changes the way ai.act did
+const commandPages = new WeakMap<SemanticCommandResult, Page>();
+const tabCommandResults = new WeakSet<SemanticCommandResult>();
+
+function tagCommandPage(page: Page): (result: SemanticCommandResult) => SemanticCommandResult {
+  return (result) => {
+    commandPages.set(result, page);
+    return result;
+  };
+}
+
+function runTabCommand(tabs: TabTracker, command: SomCommand): Promise<SemanticCommandResult> {
+  return tabs.run(command).then((result) => {
+    tabCommandResults.add(result);
+    return tagCommandPage(tabs.getActivePage())(result);
+  });
+}
 
 function summarizeSomElement(element: SomElement): Record<string, unknown> {
   const {
@@ -67,6 +140,7 @@ function summarizeSomElement(element: SomElement): Record<string, unknown> {
     className,
     bbox,
     hasVisiblePseudoElement,
+    framePath,
   } = element;
 
   return {
@@ -83,6 +157,7 @@ function summarizeSomElement(element: SomElement): Record<string, unknown> {
     className,
     bbox,
     hasVisiblePseudoElement,
+    framePath,
   };
 }
 
@@ -121,6 +196,13 @@ class NavigationInProgressError extends Error {
   }
 }
 
+class DeadlineExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
 function safeToString(value: unknown): string {
   try {
     return String(value);
@@ -169,7 +251,11 @@ function formatFailedAttemptsLine(
   }
 }
 
-function getDesiredTestTimeout(): number {
+function getDesiredTestTimeout(settings?: AiSettings): number {
+  const configured = settings?.timeouts?.test_extension;
+  if (configured !== undefined) {
+    return Math.max(0, configured);
+  }
   const raw = process.env.AI_PLAYWRIGHT_TEST_TIMEOUT_MS?.trim();
   if (!raw) {
     return DEFAULT_TEST_TIMEOUT_MS;
@@ -259,10 +345,15 @@ function getOrCreatePageTimeoutState(page: any): TimeoutState {
 }
 
 function extendTestTimeout(
-  context: { test?: TestLike; testInfo?: { setTimeout?: (timeout: number) => void; timeout?: number; startTime?: Date | number }; page?: any },
+  context: {
+    test?: TestLike;
+    testInfo?: { setTimeout?: (timeout: number) => void; timeout?: number; startTime?: Date | number };
+    page?: any;
+    settings?: AiSettings;
+  },
   reason: string,
 ): void {
-  const desired = getDesiredTestTimeout();
+  const desired = getDesiredTestTimeout(context.settings);
   if (desired <= 0) {
     return;
   }
@@ -350,7 +441,11 @@ function resolveExpect(context: { expect?: PlaywrightExpect; test?: TestLike; te
   return undefined;
 }
 
-function getMaxWaitRetries(): number {
+function getMaxWaitRetries(settings?: AiSettings): number {
+  const configured = settings?.retries?.wait;
+  if (configured !== undefined) {
+    return Math.max(0, Math.floor(configured));
+  }
   const raw = process.env.AI_PLAYWRIGHT_MAX_WAIT_RETRIES?.trim();
   if (!raw) {
     return DEFAULT_WAIT_RETRY_LIMIT;
@@ -359,7 +454,24 @@ function getMaxWaitRetries(): number {
   return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : DEFAULT_WAIT_RETRY_LIMIT;
 }
 
-function getMaxObjectiveIterations(): number {
+function getMaxFailureRetries(settings?: AiSettings): number {
+  const configured = settings?.retries?.failure;
+  if (configured !== undefined) {
+    return Math.max(0, Math.floor(configured));
+  }
+  const raw = process.env.AI_PLAYWRIGHT_MAX_FAILURE_RETRIES?.trim();
+  if (!raw) {
+    return DEFAULT_FAILURE_RETRY_LIMIT;
+  }
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : DEFAULT_FAILURE_RETRY_LIMIT;
+}
+
+function getMaxObjectiveIterations(settings?: AiSettings): number {
+  const configured = settings?.retries?.objective_iterations;
+  if (configured !== undefined) {
+    return Math.max(1, Math.floor(configured));
+  }
   const raw = process.env.AI_PLAYWRIGHT_MAX_OBJECTIVE_ITERATIONS?.trim();
   if (!raw) {
     return DEFAULT_OBJECTIVE_ITERATION_LIMIT;
@@ -402,7 +514,7 @@ const ACT_PROTO_DEFINITION = [
   'message SomCommand {',
   '  string elementRef = 1;  // e.g. "1"',
   '  string action = 2;      // InteractionAction enum value',
-  '  optional string value = 3;  // fill/type/select values',
+  '  optional string value = 3;  // fill/type/select values, tab index for switchTab/closeTab, prompt text for acceptDialog, file paths for upload',
   '  optional Coordinate coord = 4;      // coordinate click/press',
   '  optional Coordinate fromCoord = 5;  // drag start',
   '  optional Coordinate toCoord = 6;    // drag end',
@@ -436,6 +548,10 @@ function buildActRules(actions: string): string[] {
     '- Use requestSomRefresh = true when the SoM overlay needs to be regenerated (commandsToRun must be empty in that case).',
     '- Use WAIT_FOR commands when additional time is required; provide durationSeconds or value in seconds.',
     '- WAIT_FOR ignores elementRef; leave elementRef empty for pure waits.',
+    '- switchTab / closeTab: leave elementRef empty and set value to the tab index from the open tabs list (closeTab without value closes the active tab). Tabs opened by your commands become active automatically.',
+    '- Values written as {{secret:NAME}} are secrets: copy the placeholder verbatim into value (e.g. "value": "{{secret:PASSWORD}}"); it is replaced with the real value when the command runs. Never guess or alter secret values.',
+    '- upload: set elementRef to the file input or to the button that opens the file picker, and value to the file path(s) from UPLOADABLE FILES (comma-separated for several files). Never use paths that are not listed.',
+    '- When an OPEN DIALOG is listed, the page is blocked until it is handled: return only acceptDialog (value = text to enter for prompt dialogs) or dismissDialog, without elementRef. Other commands run after the next prompt.',
     '- Never hallucinate commands for screens you cannot currently see or interact with.',
     '- When the objective is already satisfied, set stepCompleted = true, optionally describe the outcome in completedObjectiveSummary, and leave commandsToRun empty.',
     '- commandsToRun may be empty ONLY when stepCompleted = true, shouldWait = true, or requestSomRefresh = true.',
@@ -458,6 +574,32 @@ const VERIFY_PROMPT_STATIC = [
   '',
 ];
 
+const LOCATE_PROMPT_STATIC = [
+  'Respond with JSON ONLY that matches this schema exactly:',
+  '{',
+  '  "elementRef": "12",',
+  '  "notFoundReason": "why no marked element matches (empty string when found)",',
+  '  "shouldWait": false,',
+  '  "waitReason": "what is still loading (only when shouldWait is true)"',
+  '}',
+  '',
+  'elementRef is the SoM ID of the single marked element that best matches the description; use the SoM ELEMENT MAP to disambiguate.',
+  'Prefer the interactive element itself (button, link, input) over a wrapper around it.',
+  'When no marked element matches, set elementRef to an empty string and explain why in notFoundReason.',
+  'If the element is not rendered yet (page still loading, spinner, empty placeholder), respond with shouldWait = true, an empty elementRef and a waitReason instead.',
+  '',
+];
+
+const VERIFY_ASSERTIONS_INSTRUCTIONS = [
+  'Also translate the requirement into DOM checks that back your verdict, in a "verifications" array:',
+  '  "verifications": [{ "verificationType": "textContains", "elementRef": "3", "expected": "Welcome", "description": "greeting is shown" }]',
+  `verificationType must be one of: ${Object.values(VerificationType).join(', ')}.`,
+  '- elementRef is the SoM ID from the SoM ELEMENT MAP. For countEquals/countGreaterThan/countLessThan over repeated elements, set selector to a CSS selector instead.',
+  '- expected holds the text, value or count; hasClass takes a class name and hasAttribute takes "attribute" or "attribute:value".',
+  '- Only add checks that hold exactly when the requirement is met; return an empty array when the requirement cannot be expressed as DOM checks.',
+  '',
+];
+
 function logDebug(message: string, details?: Record<string, unknown>): void {
   if (isDebugEnabled()) {
     if (details) {
@@ -481,6 +623,25 @@ const EXTRACT_PROMPT_STATIC = [
   '',
 ];
 
+const EXTRACT_SCHEMA_PROMPT_STATIC = [
+  'Respond with JSON ONLY in this shape:',
+  '{ "extractedData": <value matching the JSON Schema below> }',
+  '',
+  '- extractedData must validate against the schema: exact property names, JSON types (numbers unquoted, no currency symbols or thousands separators) and required properties.',
+  '- When the requirement asks for a list (e.g. table rows), include every matching item that is visible.',
+  '',
+];
+
+const EXTRACT_WAIT_INSTRUCTIONS = [
+  '- If the requested data is not visible yet (page still loading, spinner, empty placeholder), respond with shouldWait = true and a waitReason instead of extracting.',
+  '',
+];
+
+const EXTRACT_CONFIDENCE_INSTRUCTIONS = [
+  '- Also include "confidence": a number between 0 and 100 for how certain you are that the extracted value is complete and correct.',
+  '',
+];
+
 type Logger = (message: string) => void;
 
 type TestLike = PlaywrightTestApi | {
@@ -501,6 +662,16 @@ type ActContext = {
     timeout?: number;
     startTime?: Date | number;
   };
+  // Set to false to bypass the ai.act replay cache for this call
+  cache?: boolean;
+  // Generate deterministic Playwright code for this call (defaults to AI_PLAYWRIGHT_CODEGEN)
+  codegen?: boolean;
+  // LLM provider (or ordered fallback chain) for this call; defaults to AI_PLAYWRIGHT_LLM_PROVIDER
+  provider?: ProviderSelection;
+  // Files the upload action may use (e.g. test fixtures); the LLM can only pick from this list
+  files?: string[];
+  // Timeouts, retries and screenshot quality for this call, overriding the environment variables
+  settings?: AiSettings;
 };
 
 type VerifyContext = {
@@ -513,17 +684,45 @@ type VerifyContext = {
     timeout?: number;
     startTime?: Date | number;
   };
+  provider?: ProviderSelection;
+  logger?: Logger;
+  settings?: AiSettings;
 };
 
 type ExtractReturnType = 'string_array' | 'string' | 'int_array' | 'int';
 
 type ExtractOptions = {
   return_type?: ExtractReturnType;
+  // Return { value, usage, provider } instead of the bare extracted value
+  include_usage?: boolean;
+  // Extract from this text file (path or ai.act download) instead of a screenshot
+  file?: string | AiDownload;
+  // JSON Schema (or zod-like schema with safeParse) the extracted value must match; replaces return_type
+  schema?: ExtractSchema;
+  // Ask the LLM for a confidence score and fail below this value (0-100)
+  confidence_threshold?: number;
+  // Scroll through the page (or a container) and merge the lists extracted from each viewport
+  scroll?: boolean | ScrollExtractOptions;
 };
 
 type VerifyOptions = {
   confidence_threshold?: number;
   expect?: PlaywrightExpect;
+  // Record failures with expect.soft and keep the test running
+  soft?: boolean;
+  // Verify this text file (path or ai.act download) instead of a screenshot
+  file?: string | AiDownload;
+  // Also have the LLM express the requirement as expect(locator) checks, run them and return their code
+  assertions?: boolean;
+};
+
+type WaitUntilOptions = {
+  // Give up after this many milliseconds (default 30s)
+  timeout?: number;
+  // Pause between checks in milliseconds (default 2s)
+  interval?: number;
+  // A check only counts as satisfied at or above this confidence (default 70)
+  confidence_threshold?: number;
 };
 
 function isNavigationError(error: unknown): boolean {
@@ -616,6 +815,17 @@ async function stabilizeForLlm<T>({
   }
 }
 
+function formatFileContents(file: TextFile | undefined): string[] {
+  if (!file) {
+    return [];
+  }
+  return [
+    `FILE CONTENTS (${file.name}); no screenshot is provided, evaluate the file instead:`,
+    truncate(file.content, FILE_CONTENT_MAX_CHARS),
+    '',
+  ];
+}
+
 function truncate(text: string, limit: number = SOM_ELEMENT_MAP_MAX_CHARS): string {
   if (!text) {
     return text;
@@ -627,7 +837,47 @@ function buildActSystemPrompt(): string {
   return 'You are an expert UI automation agent that outputs Playwright SomCommands in JSON only.';
 }
 
-function buildActUserPrompt(objective: string, somElementMap: string, waitCount: number, maxWaits: number): string {
+function formatOpenTabs(tabs: TabInfo[]): string[] {
+  if (tabs.length <= 1) {
+    return [];
+  }
+  return [
+    'OPEN TABS (the screenshot and element map show the active tab):',
+    ...tabs.map((tab) => `[${tab.index}]${tab.active ? ' (active)' : ''} ${tab.title ? `"${tab.title}" ` : ''}${tab.url}`),
+    '',
+  ];
+}
+
+function formatOpenDialog(dialog: DialogInfo | undefined): string[] {
+  if (!dialog) {
+    return [];
+  }
+  return [
+    'OPEN DIALOG (native browser dialog; it is not shown in the screenshot and the page cannot be inspected until it is handled):',
+    `type: ${dialog.type}`,
+    `message: ${dialog.message}`,
+    ...(dialog.defaultValue !== undefined ? [`default prompt value: ${dialog.defaultValue}`] : []),
+    '',
+  ];
+}
+
+function formatUploadFiles(files: string[] | undefined): string[] {
+  if (!files || files.length === 0) {
+    return [];
+  }
+  return ['UPLOADABLE FILES (the only files the upload action may use):', ...files.map((file) => `- ${file}`), ''];
+}
+
+function buildActUserPrompt(
+  objective: string,
+  somElementMap: string,
+  waitCount: number,
+  maxWaits: number,
+  tabs: TabInfo[] = [],
+  dialog?: DialogInfo,
+  uploadFiles?: string[],
+  history: string[] = [],
+): string {
   const actions = Object.values(InteractionAction).join(', ');
   return [
     ...ACT_PROMPT_HEADER,
@@ -645,35 +895,130 @@ function buildActUserPrompt(objective: string, somElementMap: string, waitCount:
     '',
     'Objective: ' + objective,
     '',
+    ...formatOpenTabs(tabs),
+    ...formatOpenDialog(dialog),
+    ...formatUploadFiles(uploadFiles),
+    ...history,
     'SoM ELEMENT MAP (for disambiguation):',
     truncate(somElementMap),
     '',
   ].join('\n');
 }
 
-function buildVerifySystemPrompt(): string {
-  return 'You evaluate UI screenshots to verify requirements. Respond with JSON only.';
+function buildVerifySystemPrompt(file?: TextFile): string {
+  const source = file ? 'file contents' : 'UI screenshots';
+  return `You evaluate ${source} to verify requirements. Respond with JSON only.`;
 }
 
-function buildVerifyUserPrompt(requirement: string): string {
+function buildVerifyUserPrompt(requirement: string, file?: TextFile, somElementMap?: string): string {
+  const assertionLines =
+    somElementMap === undefined
+      ? []
+      : [...VERIFY_ASSERTIONS_INSTRUCTIONS, 'SoM ELEMENT MAP:', truncate(somElementMap), ''];
   return [
     ...VERIFY_PROMPT_STATIC,
+    ...assertionLines,
+    ...formatFileContents(file),
     'Requirement: ' + requirement,
     '',
   ].join('\n');
 }
 
-function buildExtractSystemPrompt(): string {
-  return 'You extract structured information from UI screenshots. Respond with JSON only.';
+function buildLocateSystemPrompt(): string {
+  return 'You find UI elements on annotated screenshots. Respond with JSON only.';
 }
 
-function buildExtractUserPrompt(requirement: string, returnType: ExtractReturnType): string {
+function buildLocateUserPrompt(description: string, somElementMap: string, correction?: string): string {
+  return [
+    ...LOCATE_PROMPT_STATIC,
+    ...(correction ? [correction, ''] : []),
+    'Element description: ' + description,
+    '',
+    'SoM ELEMENT MAP:',
+    truncate(somElementMap),
+    '',
+  ].join('\n');
+}
+
+const VERIFY_ALL_PROMPT_STATIC = [
+  'Respond with JSON ONLY that matches this schema exactly:',
+  '{',
+  '  "requirementResults": [',
+  '    { "index": 0, "verificationSuccess": true, "confidence": 95, "verificationReason": "why verificationSuccess is false (empty string when true)" }',
+  '  ]',
+  '}',
+  '',
+  'Return exactly one entry per requirement, using the requirement number as index.',
+  'Evaluate each requirement independently; confidence must be between 0 and 100.',
+  'When verificationSuccess is false, provide verificationReason explaining the failure.',
+  '',
+];
+
+function buildVerifyAllUserPrompt(requirements: string[], file?: TextFile): string {
   return [
-    ...EXTRACT_PROMPT_STATIC,
-    'Return type requested: ' + returnType,
+    ...VERIFY_ALL_PROMPT_STATIC,
+    ...formatFileContents(file),
+    'Requirements:',
+    ...requirements.map((requirement, index) => `[${index}] ${requirement}`),
     '',
+  ].join('\n');
+}
+
+function formatRequirementFailure(result: AiRequirementResult): string {
+  const reason = result.verificationReason ? ` - ${result.verificationReason}` : '';
+  return `${result.requirement}${reason} (confidence ${result.confidence})`;
+}
+
+function buildExtractSystemPrompt(file?: TextFile): string {
+  const source = file ? 'file contents' : 'UI screenshots';
+  return `You extract structured information from ${source}. Respond with JSON only.`;
+}
+
+type ExtractPromptSpec = {
+  returnType: ExtractReturnType;
+  schema?: ExtractSchema;
+  file?: TextFile;
+  chunk?: number;
+  requestConfidence: boolean;
+  correction?: string;
+};
+
+function buildExtractUserPrompt(requirement: string, spec: ExtractPromptSpec): string {
+  const format = spec.schema
+    ? [
+        ...EXTRACT_SCHEMA_PROMPT_STATIC,
+        'JSON Schema:',
+        describeSchema(spec.schema) ?? '(not available; follow the requirement and the validation errors reported to you)',
+        '',
+      ]
+    : [...EXTRACT_PROMPT_STATIC, 'Return type requested: ' + spec.returnType, ''];
+  return [
+    ...format,
+    // A file does not change while we wait, so waiting only applies to screenshots
+    ...(spec.file ? [] : EXTRACT_WAIT_INSTRUCTIONS),
+    ...(spec.requestConfidence ? EXTRACT_CONFIDENCE_INSTRUCTIONS : []),
+    ...(spec.chunk !== undefined ? formatScrollChunk(spec.chunk) : []),
+    ...formatFileContents(spec.file),
     'Requirement: ' + requirement,
     '',
+    ...(spec.correction ? [spec.correction, ''] : []),
+  ].join('\n');
+}
+
+function formatScrollChunk(chunk: number): string[] {
+  return [
+    `SCROLL CHUNK ${chunk}: the page is extracted in viewport-sized chunks while scrolling. Return only the matching items visible in this screenshot (an empty list when there are none); items repeated from the previous chunk are removed automatically.`,
+    '',
+  ];
+}
+
+function formatExtractCorrection(raw: string, errors: string[]): string {
+  return [
+    'Your previous response could not be used:',
+    truncate(raw, FILE_CONTENT_MAX_CHARS),
+    'Errors:',
+    ...errors.map((error) => `- ${error}`),
+    'Return a corrected response.',
   ].join('\n');
 }
 
@@ -700,10 +1045,32 @@ function createTimeoutFailure(command: SomCommand, message: string): SemanticCom
   };
 }
 
+interface BlockedCommand {
+  command: SomCommand;
+  replaySelector?: TypedSelector;
+  page: Page;
+  completion: Promise<SemanticCommandResult>;
+  placeholder: SemanticCommandResult;
+}
+
+// Stands in for a command that is still waiting on the native dialog it opened
+function createDialogPlaceholder(command: SomCommand, dialog: DialogInfo): SemanticCommandResult {
+  const target = command.elementRef ? ` on ${command.elementRef}` : '';
+  return {
+    failedAttempts: [],
+    successAttempt: {
+      command: `${command.action}${target} opened a ${dialog.type} dialog`,
+      status: CommandRunStatus.SUCCESS,
+    },
+    status: CommandRunStatus.SUCCESS,
+  };
+}
+
 async function executeSomCommand(
   handler: PageSoMHandler,
   command: SomCommand,
   timeoutMs: number,
+  run: () => Promise<SemanticCommandResult> = () => handler.runCommand(command),
 ): Promise<SemanticCommandResult> {
   let resolved = false;
   let timeout: NodeJS.Timeout | undefined;
@@ -715,8 +1082,7 @@ async function executeSomCommand(
     }, timeoutMs);
   });
 
-  const runPromise = handler
-    .runCommand(command)
+  const runPromise = run()
     .then((result) => {
       if (!resolved && timeout) {
         clearTimeout(timeout);
@@ -753,17 +1119,23 @@ async function executeSomCommand(
   return result;
 }
 
-async function capturePageScreenshot(page: Page, fullPage: boolean): Promise<string> {
+function getScreenshotQuality(settings?: AiSettings): number {
+  const configured = settings?.screenshot?.quality;
+  return configured !== undefined ? Math.min(100, Math.max(0, Math.round(configured))) : DEFAULT_SCREENSHOT_QUALITY;
+}
+
+async function capturePageScreenshot(page: Page, fullPage: boolean, settings?: AiSettings): Promise<string> {
   const buffer = await page.screenshot({
     fullPage,
     type: 'jpeg',
-    quality: DEFAULT_SCREENSHOT_QUALITY,
+    quality: getScreenshotQuality(settings),
+    mask: await resolveScreenshotMasks(page, settings),
   });
   return `data:image/jpeg;base64,${buffer.toString('base64')}`;
 }
 
-async function captureSomScreenshot(handler: PageSoMHandler): Promise<string> {
-  return handler.getScreenshot(true, false, DEFAULT_SCREENSHOT_QUALITY);
+async function captureSomScreenshot(handler: PageSoMHandler, page: Page, settings?: AiSettings): Promise<string> {
+  return handler.getScreenshot(true, false, getScreenshotQuality(settings), await resolveScreenshotMasks(page, settings));
 }
 
 function ensureCommands(
@@ -816,12 +1188,19 @@ function castStringArrayToNumbers(values: string[], fieldName: string): number[]
   return values.map((value) => castToNumber(value, fieldName));
 }
 
-function computeExtractResult(result: AiActionResult, options?: ExtractOptions): string | string[] | number | number[] {
+function computeExtractResult(
+  result: AiActionResult,
+  options?: ExtractOptions,
+  allowEmptyList: boolean = false,
+): string | string[] | number | number[] {
   const returnType: ExtractReturnType = options?.return_type || 'string';
   const list = result.extractedContentList ?? [];
   const content = result.extractedContent;
 
   if (!content && list.length === 0) {
+    if (allowEmptyList && (returnType === 'string_array' || returnType === 'int_array')) {
+      return [];
+    }
     throw new Error('LLM response did not include extracted content.');
   }
 
@@ -854,7 +1233,139 @@ function computeExtractResult(result: AiActionResult, options?: ExtractOptions):
   }
 }
 
-async function act(objective: string, context: ActContext): Promise<AiActResult> {
+async function resolveReplaySelector(
+  handler: PageSoMHandler,
+  command: SomCommand,
+  enabled: boolean,
+): Promise<TypedSelector | undefined> {
+  if (!enabled || !command.elementRef) {
+    return undefined;
+  }
+  return handler.resolveStableSelector(command.elementRef);
+}
+
+async function replayCachedAct(
+  objective: string,
+  context: ActContext,
+  handler: PageSoMHandler,
+  entry: ActCacheEntry,
+  tabs: TabTracker,
+  dialogs: DialogSession,
+  syncActivePage: () => Promise<void>,
+): Promise<{ results: SemanticCommandResult[]; replayedSteps: CachedActStep[]; completed: boolean }> {
+  logDebug('Replaying cached ai.act steps', { objective, steps: entry.steps.length, updatedAt: entry.updatedAt });
+  const results: SemanticCommandResult[] = [];
+  const replayedSteps: CachedActStep[] = [];
+
+  for (const step of entry.steps) {
+    // Popups opened by the previous step take over, as they did when the entry was recorded
+    await syncActivePage();
+    await waitForPageStability(tabs.getActivePage(), {
+      logger: context.logger,
+      description: `cached replay for ai.act objective: ${objective}`,
+    });
+    const timeout = isNavigationAction(step.command.action)
+      ? getNavigationTimeout(context.settings)
+      : getCommandTimeout(context.settings);
+    let result: SemanticCommandResult;
+    const page = tabs.getActivePage();
+    try {
+      result = await executeSomCommand(handler, step.command, timeout, async () => {
+        if (isTabAction(step.command.action)) {
+          return runTabCommand(tabs, step.command);
+        }
+        // Recorded before the action that opens the dialog, so this arms the response
+        if (isDialogAction(step.command.action)) {
+          return dialogs.run(page, step.command).then(tagCommandPage(page));
+        }
+        return handler
+          .runRecordedCommand(resolveUploadCommand(step.command, context.files), step.selector)
+          .then(tagCommandPage(page));
+      });
+    } catch (error) {
+      logDebug('Cached replay interrupted; falling back to LLM', {
+        step,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      return { results, replayedSteps, completed: false };
+    }
+    if (result.status === CommandRunStatus.FAILURE) {
+      logDebug('Cached step failed; falling back to LLM', { step, error: result.error });
+      return { results, replayedSteps, completed: false };
+    }
+    results.push(result);
+    replayedSteps.push(step);
+  }
+
+  await syncActivePage();
+  await waitForPageStability(tabs.getActivePage(), {
+    logger: context.logger,
+    description: `post-replay for ai.act objective: ${objective}`,
+  });
+  return { results, replayedSteps, completed: true };
+}
+
+// Snippets go to the caller's logger; without one they only show up in the debug log
+function logSnippet(logger: Logger | undefined, message: string): void {
+  if (logger) {
+    logger(message);
+  } else {
+    logDebug(message);
+  }
+}
+
+function emitGeneratedCode(
+  objective: string,
+  context: ActContext,
+  commands: string[],
+  callSite: CallSite | undefined,
+): string {
+  const snippet = buildPlaywrightSnippet(objective, commands);
+  logSnippet(context.logger, `[ai] 🧩 Generated Playwright code for "${objective}":\n${snippet}`);
+  if (callSite) {
+    let reason: string | undefined;
+    if (!isPortableSnippet(snippet)) {
+      reason = 'some steps have no portable code';
+    } else if (!scheduleSpecRewrite(callSite, snippet)) {
+      reason = 'it is not a standalone await ai.act(...) statement; paste the generated code manually';
+    }
+    if (reason) {
+      logSnippet(context.logger, `[ai] Not rewriting the ai.act call at ${callSite.file}:${callSite.line}: ${reason}.`);
+    }
+  }
+  return snippet;
+}
+
+async function act(rawObjective: string, context: ActContext): Promise<AiActResult> {
+  // Secrets written literally are swapped for placeholders before the objective reaches prompts, logs or the cache
+  const objective = redactSecrets(rawObjective);
+  const codegenEnabled = context?.codegen ?? isCodegenEnabled();
+  // Must run before the first await (and outside test.step) so the caller's frame is still on the stack
+  const callSite = codegenEnabled && isSpecRewriteEnabled() ? captureCallSite() : undefined;
+  const artifacts = createStepArtifacts(context, 'ai.act');
+  const dialogs = createDialogSession();
+  const downloads = createDownloadCollector(context);
+
+  return runAiStep(context, formatStepTitle('ai.act', objective), async () => {
+    try {
+      return await runAct(objective, context, artifacts, dialogs, downloads, codegenEnabled, callSite);
+    } finally {
+      dialogs.release();
+      downloads.dispose();
+      await artifacts.finish();
+    }
+  });
+}
+
+async function runAct(
+  objective: string,
+  context: ActContext,
+  artifacts: AiStepArtifacts,
+  dialogs: DialogSession,
+  downloads: DownloadCollector,
+  codegenEnabled: boolean,
+  callSite: CallSite | undefined,
+): Promise<AiActResult> {
   if (!context?.page) {
     throw new Error('act() requires a Playwright page instance.');
   }
@@ -869,42 +1380,282 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
   }
 
   const handler = new PageSoMHandler(context.page, context.logger);
-  const waitRetryLimit = getMaxWaitRetries();
+  const tabs = createTabTracker(context.page);
+  let activePage = context.page;
+  dialogs.hold(activePage);
+  downloads.watch(activePage);
+  const syncActivePage = async (): Promise<void> => {
+    const page = tabs.sync();
+    if (page === activePage) {
+      return;
+    }
+    logDebug('Active tab changed', { from: activePage.url(), to: page.url(), index: tabs.indexOf(page) });
+    activePage = page;
+    dialogs.hold(page);
+    downloads.watch(page);
+    handler.setPage(page);
+    await waitForPageStability(page, {
+      logger: context.logger,
+      description: `tab switch for ai.act objective: ${objective}`,
+    });
+  };
+  const runPageCommand = async (command: SomCommand): Promise<SemanticCommandResult> =>
+    handler.runCommand(resolveUploadCommand(command, context.files));
+  // Command whose action opened a native dialog; it only completes once the dialog is handled
+  let blockedCommand: BlockedCommand | undefined;
+  const runActCommand = async (
+    command: SomCommand,
+    timeout: number,
+    replaySelector?: TypedSelector,
+  ): Promise<SemanticCommandResult> => {
+    if (isDialogAction(command.action)) {
+      const page = activePage;
+      return executeSomCommand(handler, command, timeout, () => dialogs.run(page, command).then(tagCommandPage(page)));
+    }
+    const openDialog = dialogs.getPending(activePage);
+    if (openDialog) {
+      const error = `A ${openDialog.type} dialog is open; it must be accepted or dismissed before ${command.action}`;
+      return {
+        failedAttempts: [{ command: command.action, status: CommandRunStatus.FAILURE, error }],
+        status: CommandRunStatus.FAILURE,
+        error,
+      };
+    }
+    const page = activePage;
+    const completion = isTabAction(command.action)
+      ? runTabCommand(tabs, command)
+      : runPageCommand(command).then(tagCommandPage(page));
+    // Settled later by settleBlockedCommand; avoids an unhandled rejection while the LLM decides
+    completion.catch(() => undefined);
+    const dialogWatch = dialogs.waitForDialog(page);
+    try {
+      return await executeSomCommand(handler, command, timeout, () =>
+        Promise.race([
+          completion,
+          dialogWatch.promise.then((dialog) => {
+            const placeholder = createDialogPlaceholder(command, dialog);
+            blockedCommand = { command, replaySelector, page, completion, placeholder };
+            return placeholder;
+          }),
+        ]),
+      );
+    } finally {
+      dialogWatch.cancel();
+    }
+  };
+  const waitRetryLimit = getMaxWaitRetries(context.settings);
   let waitCount = 0;
   let preActionRetryCount = 0;
+  const failureRetryLimit = getMaxFailureRetries(context.settings);
+  let failureRetryCount = 0;
+  const history = createActHistory();
   const aggregateResults: SemanticCommandResult[] = [];
+  // Failed commands the LLM recovered from are reported apart so command_results only lists what stuck
+  const recoveredFailures: SemanticCommandResult[] = [];
+  const setAsideFailure = (): void => {
+    const failed = aggregateResults.pop();
+    if (failed) {
+      recoveredFailures.push(failed);
+    }
+  };
+  artifacts.trackCommandResults(aggregateResults);
+
+  const cacheDir = context.cache === false ? undefined : getActCacheDir();
+  const fingerprint = cacheDir ? computePageFingerprint(context.page) : undefined;
+  const recording = createActRecording();
+  const usage = createUsageTracker(resolveUsageTestInfo(context));
+  let lastProvider: string | undefined;
+  const recordSelectors = Boolean(cacheDir) || codegenEnabled;
+  const generatedCode: string[] = [];
+  // The tab the generated code's page variable points at
+  let codePage: Page = context.page;
+  const recordCode = (result: SemanticCommandResult, selector?: TypedSelector): void => {
+    const command = result.successAttempt?.command;
+    if (!codegenEnabled || !command) {
+      return;
+    }
+    const ranOn = commandPages.get(result);
+    if (tabCommandResults.has(result)) {
+      // switchTab / closeTab code reassigns page itself
+      generatedCode.push(command);
+      codePage = ranOn ?? codePage;
+      return;
+    }
+    if (ranOn && ranOn !== codePage) {
+      // A popup or new tab took over after an earlier command, without a switchTab of its own
+      const index = tabs.indexOf(ranOn);
+      generatedCode.push(
+        index >= 0
+          ? `page = page.context().pages()[${index}] ?? (await page.context().waitForEvent('page')); await page.bringToFront()`
+          : `page = await page.context().waitForEvent('page'); await page.bringToFront()`,
+      );
+      codePage = ranOn;
+    }
+    generatedCode.push(selector ? handler.toPortableCommand(command, selector) : command);
+  };
+  // Once its dialog is handled, the blocked command finishes; record it after the dialog handler
+  // so generated code registers page.once('dialog') before the action that opens the dialog
+  const settleBlockedCommand = async (): Promise<void> => {
+    const blocked = blockedCommand;
+    if (!blocked || dialogs.getPending(blocked.page)) {
+      return;
+    }
+    const reopened = dialogs.waitForDialog(blocked.page);
+    let result: SemanticCommandResult;
+    try {
+      result = await executeSomCommand(handler, blocked.command, getCommandTimeout(context.settings), () =>
+        Promise.race([blocked.completion, reopened.promise.then(() => blocked.placeholder)]),
+      );
+    } finally {
+      reopened.cancel();
+    }
+    if (result === blocked.placeholder) {
+      logDebug('Blocked command opened another dialog', { command: blocked.command });
+      return;
+    }
+    blockedCommand = undefined;
+    const index = aggregateResults.indexOf(blocked.placeholder);
+    if (index >= 0) {
+      aggregateResults[index] = result;
+    }
+    logDebug('Command blocked by dialog completed', { command: blocked.command, status: result.status });
+    if (result.status === CommandRunStatus.SUCCESS) {
+      recording.record(blocked.command, blocked.replaySelector);
+      recordCode(result, blocked.replaySelector);
+    }
+  };
+  const complete = async (response: AiActResult, fromCache: boolean = false): Promise<AiActResult> => {
+    const steps = recording.getReplayableSteps();
+    if (!fromCache && cacheDir && fingerprint && steps) {
+      await writeActCacheEntry(cacheDir, objective, fingerprint, steps);
+    }
+    if (codegenEnabled) {
+      response.playwright_code = emitGeneratedCode(objective, context, generatedCode, callSite);
+    }
+    if (lastProvider) {
+      response.provider = lastProvider;
+    }
+    response.usage = usage.getTotals();
+    if (recoveredFailures.length > 0) {
+      response.recovered_failures = recoveredFailures;
+    }
+    const saved = await downloads.collect();
+    if (saved.length > 0) {
+      response.downloads = saved;
+    }
+    artifacts.trackCommandResults(response.command_results);
+    logDebug(fromCache ? 'ai.act completed from cache' : 'ai.act completed', { ...response });
+    response.active_page = activePage;
+    response.active_page_index = tabs.indexOf(activePage);
+    return response;
+  };
+
+  if (cacheDir && fingerprint) {
+    const entry = await readActCacheEntry(cacheDir, objective, fingerprint);
+    if (entry) {
+      const replay = await replayCachedAct(objective, context, handler, entry, tabs, dialogs, syncActivePage);
+      // Cached steps already target stable selectors, so their commands are portable as-is
+      replay.results.forEach((result) => recordCode(result));
+      if (replay.completed) {
+        return complete(
+          {
+            command_results: replay.results,
+            status: CommandRunStatus.SUCCESS,
+            error: undefined,
+            cache_hit: true,
+          },
+          true,
+        );
+      }
+      // Keep the steps that still worked so the rewritten entry covers the whole objective
+      aggregateResults.push(...replay.results);
+      replay.replayedSteps.forEach((step) => recording.record(step.command, step.selector));
+      // The LLM continues from the current page and must not redo what the replay already did
+      history.startIteration();
+      replay.results.forEach((result, index) => {
+        const command = result.successAttempt?.command ?? replay.replayedSteps[index].command.action;
+        history.recordEvent(`already done from the replay cache: ${command}`);
+      });
+    }
+  }
+
+  const maxObjectiveIterations = getMaxObjectiveIterations(context.settings);
+  const subSteps: AiActSubStep[] = [];
+  let currentObjective = objective;
+  // Work of completed sub-steps (and a partial cache replay) survives the retries of later ones
+  let committedResultCount = aggregateResults.length;
+  let committedCodeCount = generatedCode.length;
+  let committedCodePage = codePage;
+  recording.checkpoint();
+  const discardUncommitted = (): void => {
+    aggregateResults.length = committedResultCount;
+    recording.reset();
+    generatedCode.length = committedCodeCount;
+    codePage = committedCodePage;
+  };
+  const completeObjective = (response: AiActResult, summary?: string): Promise<AiActResult> => {
+    if (subSteps.length > 0) {
+      subSteps.push({ objective: currentObjective, summary });
+      response.sub_steps = subSteps;
+    }
+    return complete(response);
+  };
 
   while (true) {
-    const stabilization = await stabilizeForLlm<{
-      somMap: string;
-      somScreenshot: string;
-    }>({
-      context,
-      description: `ai.act objective: ${objective}`,
-      waitCount,
-      waitRetryLimit,
-      backoffMs: NAVIGATION_RETRY_DELAY_MS,
-      prepare: async () => {
-        await handler.updateSom(false);
-        const somMap = handler.getSomElementMap();
-        logDebug('SoM element map generated', { length: somMap.length });
-        const somScreenshot = await captureSomScreenshot(handler);
-        logDebug('Captured SoM screenshot', { bytes: somScreenshot.length });
-        return { somMap, somScreenshot };
-      },
-    });
-    waitCount = stabilization.waitCount;
-    const { somMap, somScreenshot } = stabilization.data;
+    history.startIteration();
+    await syncActivePage();
+    // A native dialog blocks the page, so the LLM only gets its text until it is handled
+    const openDialog = dialogs.getPending(activePage);
+    let somMap = '';
+    let somScreenshot: string | undefined;
+    if (openDialog) {
+      logDebug('Prompting LLM to handle open dialog', { ...openDialog });
+    } else {
+      const stabilization = await stabilizeForLlm<{
+        somMap: string;
+        somScreenshot: string;
+      }>({
+        context: { ...context, page: activePage },
+        description: `ai.act objective: ${objective}`,
+        waitCount,
+        waitRetryLimit,
+        backoffMs: NAVIGATION_RETRY_DELAY_MS,
+        prepare: async () => {
+          await handler.updateSom(false);
+          const somMap = handler.getSomElementMap();
+          logDebug('SoM element map generated', { length: somMap.length });
+          const somScreenshot = await captureSomScreenshot(handler, activePage, context.settings);
+          logDebug('Captured SoM screenshot', { bytes: somScreenshot.length });
+          return { somMap, somScreenshot };
+        },
+      });
+      waitCount = stabilization.waitCount;
+      ({ somMap, somScreenshot } = stabilization.data);
+    }
 
     // Log before LLM call
     logDebug('Calling LLM for AI action', { objective, waitCount, waitRetryLimit });
     const llmCallStart = Date.now();
 
-    const aiResult = await callAiAction({
+    const request = {
       systemPrompt: buildActSystemPrompt(),
-      userPrompt: buildActUserPrompt(objective, somMap, waitCount, waitRetryLimit),
+      userPrompt: buildActUserPrompt(
+        currentObjective === objective ? objective : `${currentObjective} (remaining part of: ${objective})`,
+        somMap,
+        waitCount,
+        waitRetryLimit,
+        await tabs.listTabs((page) => Boolean(dialogs.getPending(page))),
+        openDialog,
+        context.files,
+        history.format(),
+      ),
       image: somScreenshot,
-    });
+    };
+    await artifacts.attachRequest(request, somMap);
+    const aiResult = await callAiAction(request, { provider: context.provider, settings: context.settings });
+    usage.record(aiResult);
+    await artifacts.attachResponse(aiResult.raw);
+    lastProvider = aiResult.provider;
 
     // Log after LLM call
     const llmCallDuration = Date.now() - llmCallStart;
@@ -929,19 +1680,21 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
       if (waitCount >= waitRetryLimit) {
         throw new Error(`LLM requested wait beyond max attempts (${waitRetryLimit}).`);
       }
+      history.recordEvent(`waited for the page${aiResult.waitReason ? `: ${aiResult.waitReason}` : ''}`);
       waitCount += 1;
       continue;
     }
 
     if (aiResult.stepCompleted) {
-      logDebug('LLM indicated step already satisfied', { objective });
-      const response = {
-        command_results: aggregateResults,
-        status: CommandRunStatus.SUCCESS,
-        error: undefined,
-      };
-      logDebug('ai.act completed', response);
-      return response;
+      logDebug('LLM indicated step already satisfied', { objective, currentObjective });
+      return completeObjective(
+        {
+          command_results: aggregateResults,
+          status: CommandRunStatus.SUCCESS,
+          error: undefined,
+        },
+        aiResult.completedObjectiveSummary,
+      );
     }
 
     if (aiResult.requestSomRefresh) {
@@ -955,8 +1708,9 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
         waitCount,
         waitRetryLimit,
       });
+      history.recordEvent(`requested a SoM refresh${aiResult.somRefreshReason ? `: ${aiResult.somRefreshReason}` : ''}`);
       try {
-        await waitForPageStability(context.page, {
+        await waitForPageStability(activePage, {
           logger: context.logger,
           description: `SoM refresh for ai.act objective: ${objective}`,
         });
@@ -979,6 +1733,8 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
     }
 
     const preCommands = aiResult.preCommands ?? [];
+    let dialogOpened = false;
+    let preCommandFailed = false;
     if (preCommands.length > 0) {
       logDebug('Executing pre-commands', { count: preCommands.length });
       for (const command of preCommands) {
@@ -990,22 +1746,26 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
             durationMs,
             command,
           });
-          await context.page.waitForTimeout(durationMs);
-          aggregateResults.push({
+          await activePage.waitForTimeout(durationMs);
+          const waitResult: SemanticCommandResult = {
             failedAttempts: [],
             successAttempt: {
               command: `await page.waitForTimeout(${durationMs})`,
               status: CommandRunStatus.SUCCESS,
             },
             status: CommandRunStatus.SUCCESS,
-          });
+          };
+          aggregateResults.push(waitResult);
+          history.recordCommand(command, waitResult);
+          recordCode(waitResult);
           continue;
         }
         logCommandSomContext('preCommand', command, handler);
         const timeout = isNavigationAction(command.action)
-          ? getNavigationTimeout()
-          : getCommandTimeout();
-        const result = await executeSomCommand(handler, command, timeout);
+          ? getNavigationTimeout(context.settings)
+          : getCommandTimeout(context.settings);
+        const replaySelector = await resolveReplaySelector(handler, command, recordSelectors);
+        const result = await runActCommand(command, timeout, replaySelector);
         logDebug('Executed pre-command', {
           command,
           status: result.status,
@@ -1018,7 +1778,18 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
           error: result.error,
         });
         aggregateResults.push(result);
+        history.recordCommand(command, result);
         if (result.status === CommandRunStatus.FAILURE) {
+          if (failureRetryCount < failureRetryLimit) {
+            logDebug('Pre-command failed; re-prompting LLM with iteration history', {
+              command,
+              failureRetryCount,
+              failureRetryLimit,
+            });
+            setAsideFailure();
+            preCommandFailed = true;
+            break;
+          }
           const failureMessage = [
             `AI action failed during pre-commands for objective: ${objective}`,
             result.error ? `Last error: ${result.error}` : undefined,
@@ -1029,11 +1800,32 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
           logDebug('ai.act failed during pre-commands', { command, result });
           throw new Error(failureMessage || 'Pre-action command failed.');
         }
+        if (result === blockedCommand?.placeholder) {
+          dialogOpened = true;
+          break;
+        }
+        recording.record(command, replaySelector);
+        recordCode(result, replaySelector);
+        await settleBlockedCommand();
+        if (dialogs.getPending(activePage)) {
+          dialogOpened = true;
+          break;
+        }
       }
 
+      if (dialogOpened) {
+        logDebug('Dialog opened during pre-commands; re-prompting LLM', { ...dialogs.getPending(activePage) });
+        continue;
+      }
+      if (preCommandFailed) {
+        failureRetryCount += 1;
+        preActionRetryCount = 0;
+        continue;
+      }
       logDebug('Pre-commands completed successfully', { count: preCommands.length });
       logDebug('Waiting for page stability after pre-commands', { objective });
-      await waitForPageStability(context.page, {
+      await syncActivePage();
+      await waitForPageStability(activePage, {
         logger: context.logger,
         description: `post-preCommands for ai.act objective: ${objective}`,
       });
@@ -1066,6 +1858,7 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
       if (preActionRetryCount >= waitRetryLimit) {
         throw new Error(`LLM requested retry after pre-actions beyond max attempts (${waitRetryLimit}).`);
       }
+      history.recordEvent('asked to re-plan after preCommands');
       preActionRetryCount += 1;
       waitCount = 0;
       continue;
@@ -1085,8 +1878,9 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
         waitCount,
         waitRetryLimit,
       });
+      history.recordEvent('returned no commands; waited for the page');
       waitCount += 1;
-      await waitForPageStability(context.page, {
+      await waitForPageStability(activePage, {
         logger: context.logger,
         description: `implicit-wait for ai.act objective: ${objective}`,
       });
@@ -1106,8 +1900,9 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
     for (const waitCommand of waitCommands) {
       const durationMs = clampWaitDuration(waitCommand.durationSeconds ?? (waitCommand.value ? Number(waitCommand.value) : undefined));
       logDebug('Executing WAIT_FOR command', { durationMs, command: waitCommand });
-      await context.page.waitForTimeout(durationMs);
-      await waitForPageStability(context.page, {
+      await activePage.waitForTimeout(durationMs);
+      history.recordEvent(`waited ${durationMs}ms`);
+      await waitForPageStability(activePage, {
         logger: context.logger,
         description: `post-waitFor for ai.act objective: ${objective}`,
       });
@@ -1127,7 +1922,7 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
     }
 
     if (navigationRetryRequested) {
-      aggregateResults.length = 0;
+      discardUncommitted();
       waitCount = Math.min(waitCount + 1, waitRetryLimit);
       preActionRetryCount = 0;
       continue;
@@ -1143,11 +1938,12 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
     for (const command of commandsToExecute) {
       logCommandSomContext('command', command, handler);
       const timeout = isNavigationAction(command.action)
-        ? getNavigationTimeout()
-        : getCommandTimeout();
+        ? getNavigationTimeout(context.settings)
+        : getCommandTimeout(context.settings);
+      const replaySelector = await resolveReplaySelector(handler, command, recordSelectors);
       let result: SemanticCommandResult;
       try {
-        result = await executeSomCommand(handler, command, timeout);
+        result = await runActCommand(command, timeout, replaySelector);
       } catch (error) {
         if (error instanceof SomReannotationRequiredError) {
           logDebug('SoM target changed; refreshing map and re-prompting LLM', {
@@ -1155,6 +1951,7 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
             reason: error.message,
             context: error.context,
           });
+          history.recordEvent(`${command.action} on [${command.elementRef ?? ''}] not run: SoM target changed (${error.message})`);
           reannotationRequested = true;
           break;
         }
@@ -1163,6 +1960,7 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
             command,
             reason: error instanceof Error ? error.message : String(error),
           });
+          history.recordEvent(`navigation interrupted ${command.action}; earlier commands of this batch were discarded`);
           navigationRetryRequested = true;
           break;
         }
@@ -1180,12 +1978,28 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
         error: result.error,
       });
       aggregateResults.push(result);
+      history.recordCommand(command, result);
+      if (result === blockedCommand?.placeholder) {
+        dialogOpened = true;
+        break;
+      }
+      if (result.status === CommandRunStatus.SUCCESS && isDialogAction(command.action)) {
+        recording.record(command, replaySelector);
+        recordCode(result, replaySelector);
+        await settleBlockedCommand();
+      }
+      if (dialogs.getPending(activePage)) {
+        dialogOpened = true;
+        break;
+      }
       try {
         logDebug('Post-command stabilization before refreshing SoM', {
           objective,
           command,
         });
-        await waitForPageStability(context.page, {
+        // A click may have opened a popup; continue on it before refreshing the map
+        await syncActivePage();
+        await waitForPageStability(activePage, {
           logger: context.logger,
           description: `post-command for ai.act objective: ${objective}`,
         });
@@ -1208,24 +2022,46 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
         failedCommand = command;
         break;
       }
+      if (!isDialogAction(command.action)) {
+        recording.record(command, replaySelector);
+        recordCode(result, replaySelector);
+      }
+    }
+
+    if (dialogOpened) {
+      logDebug('Dialog opened during commands; re-prompting LLM', { ...dialogs.getPending(activePage) });
+      continue;
     }
 
     if (reannotationRequested || navigationRetryRequested) {
-      aggregateResults.length = 0;
+      discardUncommitted();
       waitCount = Math.min(waitCount + 1, waitRetryLimit);
       preActionRetryCount = 0;
       continue;
     }
 
-    const response = {
+    const response: AiActResult = {
       command_results: aggregateResults,
       status,
       error: lastError,
     };
 
+    if (status === CommandRunStatus.FAILURE && failureRetryCount < failureRetryLimit) {
+      logDebug('Command failed; re-prompting LLM with iteration history', {
+        failedCommand,
+        lastError,
+        failureRetryCount,
+        failureRetryLimit,
+      });
+      setAsideFailure();
+      failureRetryCount += 1;
+      preActionRetryCount = 0;
+      continue;
+    }
+
     if (status === CommandRunStatus.FAILURE) {
       const failedResult = aggregateResults[aggregateResults.length - 1];
-      logDebug('ai.act failed', { response, failedCommand });
+      logDebug('ai.act failed', { response: { ...response }, failedCommand });
       const failureMessage = [
         `AI action failed for objective: ${objective}`,
         lastError ? `Last error: ${lastError}` : undefined,
@@ -1236,68 +2072,137 @@ async function act(objective: string, context: ActContext): Promise<AiActResult>
       throw new Error(failureMessage || 'AI action failed with unknown error.');
     }
 
-    logDebug('ai.act completed', response);
-    return response;
+    const nextObjective = aiResult.requiresFurtherAction ? aiResult.nextObjective?.trim() : undefined;
+    if (nextObjective) {
+      subSteps.push({ objective: currentObjective, summary: aiResult.completedObjectiveSummary });
+      if (subSteps.length >= maxObjectiveIterations) {
+        throw new Error(
+          `AI action still required further action after ${subSteps.length} sub-steps ` +
+            `(AI_PLAYWRIGHT_MAX_OBJECTIVE_ITERATIONS=${maxObjectiveIterations}) for objective: ${objective}\n` +
+            `Remaining: ${nextObjective}`,
+        );
+      }
+      logDebug('LLM requested further action; continuing with next objective', {
+        completedObjectiveSummary: aiResult.completedObjectiveSummary,
+        nextObjective,
+        subStep: subSteps.length,
+        maxObjectiveIterations,
+      });
+      history.recordEvent(
+        `completed sub-step${aiResult.completedObjectiveSummary ? ` (${aiResult.completedObjectiveSummary})` : ''}; continuing with: ${nextObjective}`,
+      );
+      currentObjective = nextObjective;
+      committedResultCount = aggregateResults.length;
+      committedCodeCount = generatedCode.length;
+      committedCodePage = codePage;
+      recording.checkpoint();
+      waitCount = 0;
+      preActionRetryCount = 0;
+      failureRetryCount = 0;
+      continue;
+    }
+
+    return completeObjective(response, aiResult.completedObjectiveSummary);
   }
 }
 async function verify(
   requirement: string,
   context: VerifyContext,
   options?: VerifyOptions,
-) {
-  if (!context?.page) {
-    throw new Error('verify() requires a Playwright page instance.');
-  }
+): Promise<AiVerifyResult> {
+  const artifacts = createStepArtifacts(context, 'ai.verify');
+  return runAiStep(context, formatStepTitle('ai.verify', requirement), () =>
+    runVerify(requirement, context, artifacts, options),
+  );
+}
 
-  logDebug('ai.verify invoked', { requirement });
-  extendTestTimeout(context, 'ai.verify');
-
-  const waitRetryLimit = getMaxWaitRetries();
+// Screenshot (or file) plus LLM call, retried through stabilization, navigation and SoM refresh requests
+async function requestVerification(
+  description: string,
+  context: VerifyContext,
+  artifacts: AiStepArtifacts,
+  usage: UsageTracker,
+  file: TextFile | undefined,
+  buildUserPrompt: (somElementMap?: string) => string,
+  handler?: PageSoMHandler,
+  deadline?: number,
+): Promise<AiCallResult> {
+  const waitRetryLimit = getMaxWaitRetries(context.settings);
   let waitCount = 0;
+  // With a deadline (ai.waitUntil), every retry and the LLM call itself must fit in what is left
+  const remainingSettings = (): AiSettings | undefined => {
+    if (deadline === undefined) {
+      return context.settings;
+    }
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) {
+      throw new DeadlineExceededError(`Deadline reached before ${description} could be checked.`);
+    }
+    const llmCall = Math.min(getLLMCallTimeout(context.settings), remainingMs);
+    return { ...context.settings, timeouts: { ...context.settings?.timeouts, llm_call: llmCall } };
+  };
 
   while (true) {
-    const stabilization = await stabilizeForLlm<string>({
-      context,
-      description: `ai.verify requirement: ${requirement}`,
-      waitCount,
-      waitRetryLimit,
-      backoffMs: NAVIGATION_RETRY_DELAY_MS,
-      prepare: async () => capturePageScreenshot(context.page, true),
-    });
-    waitCount = stabilization.waitCount;
-    const screenshot = stabilization.data;
-    
-    logDebug('Calling LLM for AI verification', { requirement });
+    remainingSettings();
+    let screenshot: string | undefined;
+    let somElementMap: string | undefined;
+    if (!file) {
+      const stabilization = await stabilizeForLlm<{ screenshot: string; somElementMap?: string }>({
+        context,
+        description,
+        waitCount,
+        waitRetryLimit,
+        backoffMs: NAVIGATION_RETRY_DELAY_MS,
+        prepare: async () => {
+          if (!handler) {
+            return { screenshot: await capturePageScreenshot(context.page, true, context.settings) };
+          }
+          // Generated assertions reference SoM IDs, so the LLM sees the annotated viewport
+          await handler.updateSom(false);
+          const somElementMap = handler.getSomElementMap();
+          return { screenshot: await captureSomScreenshot(handler, context.page, context.settings), somElementMap };
+        },
+      });
+      waitCount = stabilization.waitCount;
+      ({ screenshot, somElementMap } = stabilization.data);
+    }
+
+    logDebug('Calling LLM for AI verification', { description });
     const llmCallStart = Date.now();
-    let aiResult: AiActionResult;
+    let aiResult: AiCallResult;
     try {
-      aiResult = await callAiAction({
-        systemPrompt: buildVerifySystemPrompt(),
-        userPrompt: buildVerifyUserPrompt(requirement),
+      const request = {
+        systemPrompt: buildVerifySystemPrompt(file),
+        userPrompt: buildUserPrompt(somElementMap),
         image: screenshot,
-      });
+      };
+      const settings = remainingSettings();
+      await artifacts.attachRequest(request);
+      aiResult = await callAiAction(request, { provider: context.provider, settings });
+      usage.record(aiResult);
+      await artifacts.attachResponse(aiResult.raw);
     } catch (error) {
       if (isNavigationError(error)) {
         logDebug('Navigation interrupted verification LLM call; retrying after stabilization', {
-          requirement,
+          description,
         });
         waitCount = Math.min(waitCount + 1, waitRetryLimit);
         if (waitCount > waitRetryLimit) {
           throw new Error(
-            `Navigation continued interrupting verification for "${requirement}" beyond retry limit (${waitRetryLimit}).`,
+            `Navigation continued interrupting ${description} beyond retry limit (${waitRetryLimit}).`,
           );
         }
         continue;
       }
       throw error;
     }
-  
+
     const llmCallDuration = Date.now() - llmCallStart;
-    logDebug('LLM call completed', { durationMs: llmCallDuration, requirement });
-  
+    logDebug('LLM call completed', { durationMs: llmCallDuration, description });
+
     if (aiResult.requestSomRefresh) {
       logDebug('LLM requested SoM refresh during verification; retrying', {
-        requirement,
+        description,
         reason: aiResult.somRefreshReason,
         waitCount,
         waitRetryLimit,
@@ -1305,73 +2210,757 @@ async function verify(
       waitCount = Math.min(waitCount + 1, waitRetryLimit);
       continue;
     }
-  
+    return aiResult;
+  }
+}
+
+// expect.soft records the failure and lets the test continue, like Playwright's soft assertions
+function resolveAssert(expectFn: PlaywrightExpect, soft: boolean | undefined): PlaywrightExpect {
+  return soft && typeof expectFn.soft === 'function' ? (expectFn.soft as PlaywrightExpect) : expectFn;
+}
+
+function resolveVerifyExpect(context: VerifyContext, options?: VerifyOptions): PlaywrightExpect {
+  const expectFn = options?.expect ?? resolveExpect(context);
+  if (!expectFn) {
+    throw new Error('verify() requires Playwright expect. Pass the Playwright test object or provide expect explicitly.');
+  }
+  return resolveAssert(expectFn, options?.soft);
+}
+
+async function runVerify(
+  requirement: string,
+  context: VerifyContext,
+  artifacts: AiStepArtifacts,
+  options?: VerifyOptions,
+): Promise<AiVerifyResult> {
+  if (!context?.page) {
+    throw new Error('verify() requires a Playwright page instance.');
+  }
+
+  if (options?.assertions && options.file) {
+    throw new Error('verify() cannot generate assertions for a file; drop either assertions or file.');
+  }
+
+  logDebug('ai.verify invoked', { requirement });
+  extendTestTimeout(context, 'ai.verify');
+  const usage = createUsageTracker(resolveUsageTestInfo(context));
+  const file = options?.file ? await readTextFile(options.file) : undefined;
+  let handler: PageSoMHandler | undefined;
+  if (options?.assertions) {
+    // executeVerification asserts through the registered expect
+    const expectFn = options.expect ?? resolveExpect(context);
+    if (!expectFn) {
+      throw new Error('verify() with assertions requires Playwright expect. Pass the Playwright test object or provide expect explicitly.');
+    }
+    registerPlaywrightExpect(expectFn);
+    handler = new PageSoMHandler(context.page, context.logger);
+  }
+
+  const aiResult = await requestVerification(
+    `ai.verify requirement: ${requirement}`,
+    context,
+    artifacts,
+    usage,
+    file,
+    (somElementMap) => buildVerifyUserPrompt(requirement, file, somElementMap),
+    handler,
+  );
+
+  const { verificationSuccess, confidence, verificationReason } = extractVerification(aiResult);
+  logDebug('ai.verify result from LLM', { verificationSuccess, confidence, verificationReason });
+  const response: AiVerifyResult = {
+    verificationSuccess,
+    confidence,
+    verificationReason,
+    provider: aiResult.provider,
+    usage: usage.getTotals(),
+  };
+  let failedAssertions: AiAssertion[] = [];
+  if (handler) {
+    const assertions = await runGeneratedAssertions(handler, aiResult.verifications ?? []);
+    response.assertions = assertions;
+    response.playwright_code = emitAssertionCode(requirement, context, assertions);
+    failedAssertions = assertions.filter((assertion) => !assertion.passed);
+  }
+  if ((aiResult.stepCompleted || verificationSuccess) && failedAssertions.length === 0) {
+    logDebug('LLM indicated verification already satisfied', { requirement, verificationSuccess });
+    logDebug('ai.verify completed', { ...response });
+    return response;
+  }
+
+  const threshold = Math.max(0, options?.confidence_threshold ?? DEFAULT_CONFIDENCE_THRESHOLD);
+  const assert = resolveVerifyExpect(context, options);
+
+  if (!verificationSuccess && verificationReason) {
+    logDebug('ai.verify reported failure reason', { verificationReason });
+  }
+
+  logDebug('ai.verify asserting', { threshold, soft: Boolean(options?.soft) });
+
+  assert(
+    confidence,
+    `AI verification confidence ${confidence} is below threshold ${threshold}`,
+  ).toBeGreaterThanOrEqual(threshold);
+  assert(
+    verificationSuccess,
+    `AI verification failed for requirement: ${requirement}${verificationReason ? ` - ${verificationReason}` : ''}`,
+  ).toBe(true);
+  if (failedAssertions.length > 0) {
+    const summary = failedAssertions.map(formatAssertionFailure).join('\n');
+    assert(
+      failedAssertions.length,
+      `DOM assertions contradict the AI verification for requirement: ${requirement}\n${summary}`,
+    ).toBe(0);
+  }
+
+  logDebug('ai.verify completed', { ...response });
+  return response;
+}
+
+async function runGeneratedAssertions(
+  handler: PageSoMHandler,
+  verifications: SomVerification[],
+): Promise<AiAssertion[]> {
+  const assertions: AiAssertion[] = [];
+  for (const verification of verifications) {
+    const outcome = await handler.executeVerification(verification);
+    assertions.push({
+      description: verification.description,
+      playwright_code: outcome.playwrightCommand,
+      passed: outcome.success,
+      error: outcome.error,
+    });
+  }
+  logDebug('Generated assertions executed', { assertions });
+  return assertions;
+}
+
+function formatAssertionFailure(assertion: AiAssertion): string {
+  const label = assertion.playwright_code || assertion.description || 'assertion';
+  return `- ${label}${assertion.error ? ` (${assertion.error})` : ''}`;
+}
+
+function emitAssertionCode(requirement: string, context: VerifyContext, assertions: AiAssertion[]): string | undefined {
+  const commands = assertions.map((assertion) => assertion.playwright_code).filter(Boolean);
+  if (commands.length === 0) {
+    return undefined;
+  }
+  const snippet = buildPlaywrightSnippet(requirement, commands, 'ai.verify');
+  logSnippet(context.logger, `[ai] 🧩 Generated Playwright assertions for "${redactSecrets(requirement)}":\n${snippet}`);
+  return snippet;
+}
+
+async function verifyAll(
+  requirements: string[],
+  context: VerifyContext,
+  options?: VerifyOptions,
+): Promise<AiVerifyAllResult> {
+  const artifacts = createStepArtifacts(context, 'ai.verifyAll');
+  return runAiStep(context, formatStepTitle('ai.verifyAll', requirements.join('; ')), () =>
+    runVerifyAll(requirements, context, artifacts, options),
+  );
+}
+
+async function runVerifyAll(
+  requirements: string[],
+  context: VerifyContext,
+  artifacts: AiStepArtifacts,
+  options?: VerifyOptions,
+): Promise<AiVerifyAllResult> {
+  if (!context?.page) {
+    throw new Error('verifyAll() requires a Playwright page instance.');
+  }
+  if (requirements.length === 0) {
+    throw new Error('verifyAll() requires at least one requirement.');
+  }
+
+  logDebug('ai.verifyAll invoked', { requirements });
+  extendTestTimeout(context, 'ai.verifyAll');
+  const usage = createUsageTracker(resolveUsageTestInfo(context));
+  const file = options?.file ? await readTextFile(options.file) : undefined;
+
+  const aiResult = await requestVerification(
+    `ai.verifyAll requirements: ${requirements.join('; ')}`,
+    context,
+    artifacts,
+    usage,
+    file,
+    () => buildVerifyAllUserPrompt(requirements, file),
+  );
+
+  const results = requirements.map((requirement, index): AiRequirementResult => {
+    const entry = aiResult.requirementResults?.find((candidate) => candidate.index === index);
+    if (!entry) {
+      return {
+        requirement,
+        verificationSuccess: false,
+        confidence: 0,
+        verificationReason: 'No result was returned for this requirement.',
+      };
+    }
+    return {
+      requirement,
+      verificationSuccess: entry.verificationSuccess,
+      confidence: entry.confidence,
+      verificationReason: entry.verificationReason,
+    };
+  });
+  const response: AiVerifyAllResult = {
+    passed: results.every((result) => result.verificationSuccess),
+    results,
+    provider: aiResult.provider,
+    usage: usage.getTotals(),
+  };
+  logDebug('ai.verifyAll result from LLM', { results });
+
+  const failures = results.filter((result) => !result.verificationSuccess);
+  if (failures.length > 0) {
+    const assert = resolveVerifyExpect(context, options);
+    if (options?.soft) {
+      for (const failure of failures) {
+        const message = `AI verification failed for requirement: ${formatRequirementFailure(failure)}`;
+        assert(failure.verificationSuccess, message).toBe(true);
+      }
+    } else {
+      const summary = failures.map((failure) => `- ${formatRequirementFailure(failure)}`).join('\n');
+      assert(
+        failures.length,
+        `AI verification failed for ${failures.length} of ${results.length} requirements:\n${summary}`,
+      ).toBe(0);
+    }
+  }
+
+  logDebug('ai.verifyAll completed', { ...response });
+  return response;
+}
+
+async function locate(description: string, context: VerifyContext): Promise<Locator> {
+  const artifacts = createStepArtifacts(context, 'ai.locate');
+  return runAiStep(context, formatStepTitle('ai.locate', description), () =>
+    runLocate(description, context, artifacts),
+  );
+}
+
+async function runLocate(description: string, context: VerifyContext, artifacts: AiStepArtifacts): Promise<Locator> {
+  if (!context?.page) {
+    throw new Error('locate() requires a Playwright page instance.');
+  }
+
+  logDebug('ai.locate invoked', { description });
+  extendTestTimeout(context, 'ai.locate');
+  const usage = createUsageTracker(resolveUsageTestInfo(context));
+  const handler = new PageSoMHandler(context.page, context.logger);
+  const waitRetryLimit = getMaxWaitRetries(context.settings);
+  let waitCount = 0;
+  let correctionCount = 0;
+  let correction: string | undefined;
+  let somElementMap = '';
+  let screenshot: string | undefined;
+
+  while (true) {
+    // A correction refers to the SoM IDs the LLM already saw, so the annotations must not be redrawn
+    if (!correction) {
+      const stabilization = await stabilizeForLlm<{ somElementMap: string; screenshot: string }>({
+        context,
+        description: `ai.locate element: ${description}`,
+        waitCount,
+        waitRetryLimit,
+        backoffMs: NAVIGATION_RETRY_DELAY_MS,
+        prepare: async () => {
+          await handler.updateSom(false);
+          const somElementMap = handler.getSomElementMap();
+          return { somElementMap, screenshot: await captureSomScreenshot(handler, context.page, context.settings) };
+        },
+      });
+      waitCount = stabilization.waitCount;
+      ({ somElementMap, screenshot } = stabilization.data);
+    }
+
+    let aiResult: AiCallResult;
+    try {
+      const request = {
+        systemPrompt: buildLocateSystemPrompt(),
+        userPrompt: buildLocateUserPrompt(description, somElementMap, correction),
+        image: screenshot,
+      };
+      await artifacts.attachRequest(request);
+      aiResult = await callAiAction(request, { provider: context.provider, settings: context.settings });
+      usage.record(aiResult);
+      await artifacts.attachResponse(aiResult.raw);
+    } catch (error) {
+      if (isNavigationError(error)) {
+        if (waitCount >= waitRetryLimit) {
+          throw new Error(
+            `Navigation continued interrupting ai.locate for "${description}" beyond retry limit (${waitRetryLimit}).`,
+          );
+        }
+        logDebug('Navigation interrupted locate LLM call; retrying after stabilization', { description });
+        waitCount += 1;
+        correction = undefined;
+        continue;
+      }
+      throw error;
+    }
+    logDebug('ai.locate result from LLM', {
+      elementRef: aiResult.elementRef,
+      notFoundReason: aiResult.notFoundReason,
+      shouldWait: aiResult.shouldWait,
+    });
+
+    if (aiResult.shouldWait) {
+      if (waitCount >= waitRetryLimit) {
+        throw new Error(`LLM requested wait beyond max attempts (${waitRetryLimit}).`);
+      }
+      logDebug('LLM requested additional stabilization wait before locating', {
+        waitCount,
+        waitRetryLimit,
+        waitReason: aiResult.waitReason,
+      });
+      if (aiResult.elementRef) {
+        logDebug('Ignoring elementRef because shouldWait=true', { elementRef: aiResult.elementRef });
+      }
+      waitCount += 1;
+      correction = undefined;
+      continue;
+    }
+
+    const elementRef = aiResult.elementRef?.trim();
+    if (!elementRef) {
+      throw new Error(
+        `ai.locate found no element matching: ${description}` +
+          (aiResult.notFoundReason ? ` - ${aiResult.notFoundReason}` : ''),
+      );
+    }
+
+    const stable = await handler.getStableLocator(elementRef);
+    if (stable) {
+      logDebug('ai.locate completed', { description, elementRef, locator: stable.code });
+      return stable.locator as Locator;
+    }
+
+    if (correctionCount >= LOCATE_CORRECTION_ATTEMPTS) {
+      throw new Error(`ai.locate could not build a unique locator for element [${elementRef}] matching: ${description}`);
+    }
+    correctionCount += 1;
+    correction =
+      `Element [${elementRef}] has no locator that matches it uniquely. ` +
+      'If another marked element matches the description, return that one; otherwise return an empty elementRef with notFoundReason.';
+  }
+}
+
+async function waitUntil(
+  condition: string,
+  context: VerifyContext,
+  options?: WaitUntilOptions,
+): Promise<AiWaitUntilResult> {
+  const artifacts = createStepArtifacts(context, 'ai.waitUntil');
+  return runAiStep(context, formatStepTitle('ai.waitUntil', condition), () =>
+    runWaitUntil(condition, context, artifacts, options),
+  );
+}
+
+async function runWaitUntil(
+  condition: string,
+  context: VerifyContext,
+  artifacts: AiStepArtifacts,
+  options?: WaitUntilOptions,
+): Promise<AiWaitUntilResult> {
+  if (!context?.page) {
+    throw new Error('waitUntil() requires a Playwright page instance.');
+  }
+
+  const timeoutMs = Math.max(0, options?.timeout ?? DEFAULT_WAIT_UNTIL_TIMEOUT_MS);
+  const intervalMs = Math.max(0, options?.interval ?? DEFAULT_WAIT_UNTIL_INTERVAL_MS);
+  const threshold = Math.max(0, options?.confidence_threshold ?? DEFAULT_CONFIDENCE_THRESHOLD);
+  logDebug('ai.waitUntil invoked', { condition, timeoutMs, intervalMs, threshold });
+  const usage = createUsageTracker(resolveUsageTestInfo(context));
+  const startedAt = Date.now();
+
+  const deadline = startedAt + timeoutMs;
+  let lastReason: string | undefined;
+  const timedOut = (attempt: number): Error =>
+    new Error(
+      `ai.waitUntil timed out after ${Date.now() - startedAt}ms (${attempt} checks) waiting for: ${condition}` +
+        (lastReason ? ` - ${lastReason}` : ''),
+    );
+
+  for (let attempt = 1; ; attempt++) {
+    // Polling can outlast a single step's budget, so keep pushing the test timeout out
+    extendTestTimeout(context, 'ai.waitUntil');
+    let aiResult: AiCallResult;
+    try {
+      aiResult = await requestVerification(
+        `ai.waitUntil condition: ${condition}`,
+        context,
+        artifacts,
+        usage,
+        undefined,
+        () => buildVerifyUserPrompt(condition),
+        undefined,
+        deadline,
+      );
+    } catch (error) {
+      // An LLM call cut short by the remaining budget surfaces as its own timeout error
+      if (error instanceof DeadlineExceededError || Date.now() >= deadline) {
+        throw timedOut(attempt - 1);
+      }
+      throw error;
+    }
     const { verificationSuccess, confidence, verificationReason } = extractVerification(aiResult);
-    logDebug('ai.verify result from LLM', { verificationSuccess, confidence, verificationReason });
-    if (aiResult.stepCompleted || verificationSuccess) {
-      logDebug('LLM indicated verification already satisfied', { requirement, verificationSuccess });
-      const response = { verificationSuccess, confidence, verificationReason };
-      logDebug('ai.verify completed', response);
+    const elapsedMs = Date.now() - startedAt;
+    logDebug('ai.waitUntil check', { attempt, elapsedMs, verificationSuccess, confidence, verificationReason });
+
+    if (verificationSuccess && confidence >= threshold) {
+      const response: AiWaitUntilResult = {
+        confidence,
+        verificationReason,
+        attempts: attempt,
+        elapsed_ms: elapsedMs,
+        provider: aiResult.provider,
+        usage: usage.getTotals(),
+      };
+      logDebug('ai.waitUntil completed', { ...response });
       return response;
     }
+    lastReason = verificationSuccess
+      ? `confidence ${confidence} is below threshold ${threshold}`
+      : verificationReason;
 
-    const threshold = Math.max(0, options?.confidence_threshold ?? DEFAULT_CONFIDENCE_THRESHOLD);
-    const expectFn = options?.expect ?? resolveExpect(context);
-    if (!expectFn) {
-      throw new Error('verify() requires Playwright expect. Pass the Playwright test object or provide expect explicitly.');
-    }
-  
-    if (!verificationSuccess && verificationReason) {
-      logDebug('ai.verify reported failure reason', { verificationReason });
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) {
+      throw timedOut(attempt);
     }
-  
-    logDebug('ai.verify asserting', { threshold });
-
-    expectFn(
-      confidence,
-      `AI verification confidence ${confidence} is below threshold ${threshold}`,
-    ).toBeGreaterThanOrEqual(threshold);
-    expectFn(
-      verificationSuccess,
-      `AI verification failed for requirement: ${requirement}${verificationReason ? ` - ${verificationReason}` : ''}`,
-    ).toBe(true);
-
-    const response = { verificationSuccess, confidence, verificationReason };
-    logDebug('ai.verify completed', response);
-    return response;
+    await context.page.waitForTimeout(Math.min(intervalMs, remainingMs));
   }
 }
 
+function extract<T>(
+  requirement: string,
+  context: VerifyContext,
+  options: ExtractOptions & { schema: SchemaParser<T>; include_usage: true },
+): Promise<AiExtractResult<T>>;
+function extract<T>(
+  requirement: string,
+  context: VerifyContext,
+  options: ExtractOptions & { schema: SchemaParser<T> },
+): Promise<T>;
+function extract<T = unknown>(
+  requirement: string,
+  context: VerifyContext,
+  options: ExtractOptions & { schema: JsonSchema; include_usage: true },
+): Promise<AiExtractResult<T>>;
+function extract<T = unknown>(
+  requirement: string,
+  context: VerifyContext,
+  options: ExtractOptions & { schema: JsonSchema },
+): Promise<T>;
+function extract(
+  requirement: string,
+  context: VerifyContext,
+  options: ExtractOptions & { include_usage: true },
+): Promise<AiExtractResult>;
+function extract(
+  requirement: string,
+  context: VerifyContext,
+  options?: ExtractOptions,
+): Promise<string | string[] | number | number[]>;
 async function extract(
   requirement: string,
   context: VerifyContext,
   options?: ExtractOptions,
-): Promise<string | string[] | number | number[]> {
+): Promise<unknown> {
+  const artifacts = createStepArtifacts(context, 'ai.extract');
+  return runAiStep(context, formatStepTitle('ai.extract', requirement), () =>
+    runExtract(requirement, context, artifacts, options),
+  );
+}
+
+type ExtractionInput = {
+  file?: TextFile;
+  fullPage: boolean;
+  // Set while scrolling: the chunk may legitimately contain no matching items
+  chunk?: number;
+};
+
+type Extraction = { value: unknown; provider: string; confidence?: number };
+
+// One extraction from the current page state (or file), with waits, navigation retries and corrections
+async function requestExtraction(
+  requirement: string,
+  context: VerifyContext,
+  artifacts: AiStepArtifacts,
+  usage: UsageTracker,
+  options: ExtractOptions | undefined,
+  input: ExtractionInput,
+): Promise<Extraction> {
+  const { file } = input;
+  const threshold = options?.confidence_threshold;
+  const waitRetryLimit = getMaxWaitRetries(context.settings);
+  let waitCount = 0;
+  let correctionCount = 0;
+  let correction: string | undefined;
+  let screenshot: string | undefined;
+
+  while (true) {
+    // Corrections refer to what the LLM already saw, so they reuse the previous screenshot
+    if (!file && !correction) {
+      const stabilization = await stabilizeForLlm<string>({
+        context,
+        description: `ai.extract requirement: ${requirement}`,
+        waitCount,
+        waitRetryLimit,
+        backoffMs: NAVIGATION_RETRY_DELAY_MS,
+        prepare: async () => capturePageScreenshot(context.page, input.fullPage, context.settings),
+      });
+      waitCount = stabilization.waitCount;
+      screenshot = stabilization.data;
+    }
+
+    let aiResult: AiCallResult;
+    try {
+      const request = {
+        systemPrompt: buildExtractSystemPrompt(file),
+        userPrompt: buildExtractUserPrompt(requirement, {
+          returnType: options?.return_type || 'string',
+          schema: options?.schema,
+          file,
+          chunk: input.chunk,
+          requestConfidence: threshold !== undefined,
+          correction,
+        }),
+        image: screenshot,
+      };
+      await artifacts.attachRequest(request);
+      aiResult = await callAiAction(request, { provider: context.provider, settings: context.settings });
+      usage.record(aiResult);
+      await artifacts.attachResponse(aiResult.raw);
+    } catch (error) {
+      if (isNavigationError(error)) {
+        if (waitCount >= waitRetryLimit) {
+          throw new Error(
+            `Navigation continued interrupting extraction for "${requirement}" beyond retry limit (${waitRetryLimit}).`,
+          );
+        }
+        logDebug('Navigation interrupted extraction LLM call; retrying after stabilization', { requirement });
+        waitCount += 1;
+        correction = undefined;
+        continue;
+      }
+      throw error;
+    }
+    logDebug('ai.extract result from LLM', { aiResult });
+
+    if (aiResult.shouldWait && !file) {
+      if (waitCount >= waitRetryLimit) {
+        throw new Error(`LLM requested wait beyond max attempts (${waitRetryLimit}).`);
+      }
+      logDebug('LLM requested additional stabilization wait before extraction', {
+        waitCount,
+        waitRetryLimit,
+        waitReason: aiResult.waitReason,
+      });
+      waitCount += 1;
+      correction = undefined;
+      continue;
+    }
+
+    let extracted: unknown;
+    let errors: string[] | undefined;
+    if (options?.schema) {
+      const validation =
+        aiResult.extractedData === undefined
+          ? { success: false as const, errors: ['extractedData is missing from the response'] }
+          : validateWithSchema(aiResult.extractedData, options.schema);
+      if (validation.success) {
+        extracted = validation.data;
+      } else {
+        errors = validation.errors;
+      }
+    } else {
+      try {
+        extracted = computeExtractResult(aiResult, options, input.chunk !== undefined);
+      } catch (error) {
+        errors = [(error as Error).message];
+      }
+    }
+    if (errors) {
+      logDebug('ai.extract result failed validation', { correctionCount, errors });
+      if (correctionCount >= EXTRACT_CORRECTION_ATTEMPTS) {
+        throw new Error(
+          `ai.extract result was still invalid after ${correctionCount + 1} attempts:\n- ${errors.join('\n- ')}`,
+        );
+      }
+      correctionCount += 1;
+      correction = formatExtractCorrection(aiResult.raw, errors);
+      continue;
+    }
+
+    if (threshold !== undefined) {
+      const confidence = aiResult.confidence ?? 0;
+      if (confidence < threshold) {
+        logDebug('ai.extract confidence below threshold', { correctionCount, confidence, threshold });
+        if (correctionCount >= EXTRACT_CORRECTION_ATTEMPTS) {
+          throw new Error(
+            `AI extraction confidence ${confidence} is below threshold ${threshold} after ${correctionCount + 1} attempts for requirement: ${requirement}`,
+          );
+        }
+        // Shares the correction budget, but asks again from a fresh screenshot: content may still have been settling
+        correctionCount += 1;
+        correction = undefined;
+        continue;
+      }
+    }
+    return { value: extracted, provider: aiResult.provider, confidence: aiResult.confidence };
+  }
+}
+
+async function runExtract(
+  requirement: string,
+  context: VerifyContext,
+  artifacts: AiStepArtifacts,
+  options?: ExtractOptions,
+): Promise<unknown> {
   if (!context?.page) {
     throw new Error('extract() requires a Playwright page instance.');
   }
 
   logDebug('ai.extract invoked', { requirement, returnType: options?.return_type || 'string' });
   extendTestTimeout(context, 'ai.extract');
+  if (options?.scroll && options.file) {
+    throw new Error('ai.extract options scroll and file cannot be combined: scroll mode reads the page, file mode reads the file.');
+  }
+  const usage = createUsageTracker(resolveUsageTestInfo(context));
+  const file = options?.file ? await readTextFile(options.file) : undefined;
+
+  const extraction =
+    options?.scroll
+      ? await extractWhileScrolling(requirement, context, artifacts, usage, options)
+      : await requestExtraction(requirement, context, artifacts, usage, options, { file, fullPage: true });
+
+  logDebug('ai.extract completed', { extracted: extraction.value, confidence: extraction.confidence });
+  if (options?.include_usage) {
+    return {
+      value: extraction.value,
+      provider: extraction.provider,
+      usage: usage.getTotals(),
+      ...(extraction.confidence !== undefined ? { confidence: extraction.confidence } : {}),
+    };
+  }
+  return extraction.value;
+}
 
-  const screenshot = await capturePageScreenshot(context.page, true);
-  const aiResult = await callAiAction({
-    systemPrompt: buildExtractSystemPrompt(),
-    userPrompt: buildExtractUserPrompt(requirement, options?.return_type || 'string'),
-    image: screenshot,
-  });
+// Extracts viewport-sized chunks while scrolling through the page or container and merges the lists
+async function extractWhileScrolling(
+  requirement: string,
+  context: VerifyContext,
+  artifacts: AiStepArtifacts,
+  usage: UsageTracker,
+  options: ExtractOptions,
+): Promise<Extraction> {
+  const returnType = options.return_type || 'string';
+  if (!options.schema && returnType !== 'string_array' && returnType !== 'int_array') {
+    throw new Error("ai.extract scroll mode needs a list result: return_type 'string_array' or 'int_array', or an array schema.");
+  }
+  const scroll: ScrollExtractOptions = options.scroll === true ? {} : options.scroll || {};
+  const maxChunks = Math.max(1, scroll.max_chunks ?? DEFAULT_SCROLL_MAX_CHUNKS);
+  const cursor = createScrollCursor(context.page, scroll.container);
+  const settle = () =>
+    waitForPageStability(context.page, {
+      logger: (context as ActContext).logger,
+      description: `ai.extract scroll for requirement: ${requirement}`,
+    });
+
+  const chunks: unknown[][] = [];
+  let provider = '';
+  let confidence: number | undefined;
+  await cursor.start();
+  try {
+    for (let chunk = 1; chunk <= maxChunks; chunk++) {
+      const extraction = await requestExtraction(requirement, context, artifacts, usage, options, {
+        fullPage: false,
+        chunk,
+      });
+      if (!Array.isArray(extraction.value)) {
+        throw new Error('ai.extract scroll mode needs the schema to describe an array.');
+      }
+      chunks.push(extraction.value);
+      provider = extraction.provider;
+      if (extraction.confidence !== undefined) {
+        // The merged list is only as reliable as its weakest chunk
+        confidence = Math.min(confidence ?? 100, extraction.confidence);
+      }
+      logDebug('Extracted scroll chunk', { chunk, items: extraction.value.length });
+      if (chunk === maxChunks) {
+        logDebug('Stopped scrolling extraction at max_chunks', { maxChunks });
+        break;
+      }
+      if (!(await cursor.advance(settle))) {
+        break;
+      }
+    }
+  } finally {
+    await cursor.restore().catch((error: Error) => {
+      logDebug('Failed to restore scroll position after extraction', { error: error.message });
+    });
+  }
 
-  logDebug('ai.extract result from LLM', { aiResult });
-  const extracted = computeExtractResult(aiResult, options);
-  logDebug('ai.extract completed', { extracted });
-  return extracted;
+  const merged = mergeChunkItems(chunks);
+  logDebug('Merged scroll chunks', { chunks: chunks.length, items: merged.length });
+  return { value: merged, provider, confidence };
 }
 
 export const ai = {
   act,
   verify,
+  verifyAll,
+  waitUntil,
+  locate,
   extract,
+  setPriceTable,
+  getTestUsage,
+  registerSecret,
+  secret: getSecret,
 };
 
+export type AiClient = typeof ai;
+
+/**
+ * Create a client whose calls default to the given provider, limits and logger instead of the
+ * environment variables, so several configurations can coexist in one process. Values passed in a
+ * call context still win. The price table and registered secrets stay shared (see setPriceTable, registerSecret).
+ */
+export function createAi(config: AiConfig = {}): AiClient {
+  const { provider, logger, cache, codegen, secrets, ...settings } = config;
+  if (secrets) {
+    registerSecrets(secrets);
+  }
+  const bind = <C extends VerifyContext>(context: C): C => ({
+    ...context,
+    provider: context.provider ?? provider,
+    logger: context.logger ?? logger,
+    settings: mergeSettings(settings, context.settings),
+  });
+
+  return {
+    ...ai,
+    act: (objective, context) =>
+      act(objective, { ...bind(context), cache: context.cache ?? cache, codegen: context.codegen ?? codegen }),
+    verify: (requirement, context, options) => verify(requirement, bind(context), options),
+    verifyAll: (requirements, context, options) => verifyAll(requirements, bind(context), options),
+    waitUntil: (condition, context, options) => waitUntil(condition, bind(context), options),
+    locate: (description, context) => locate(description, bind(context)),
+    extract: ((requirement: string, context: VerifyContext, options?: ExtractOptions) =>
+      extract(requirement, bind(context), options)) as typeof extract,
+  };
+}
+
 export * from './types';
+export type { ProviderConfig, ProviderEntry, ProviderSelection } from './llm-providers/provider-registry';
+export type { LLMProvider, LLMProviderSettings, LLMRequest, LLMResponse } from './llm-providers/llm-provider';
+export type { AiConfig, AiRetries, AiScreenshotSettings, AiSettings, AiTimeouts } from './ai-config';
+export type { ProviderName } from './llm-providers/config';
+export type { PriceTable, TokenPrice } from './usage';
+export type { ExtractSchema, JsonSchema, JsonSchemaType, SchemaParser } from './json-schema';
+export type { ScrollExtractOptions } from './scroll-extract';
+export type { ActContext, ExtractOptions, VerifyContext, VerifyOptions, WaitUntilOptions };
 export { PageSoMHandler } from './som-handler';
@@ -0,0 +1,146 @@
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The JSON Schema subset understood by ai.extract. Unsupported keywords are passed to the
+ * LLM as part of the schema but not enforced.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  [keyword: string]: unknown;
+}
+
+export type SchemaParseResult<T> = { success: true; data: T } | { success: false; error: { message: string } };
+
+/**
+ * Any schema object with a zod-style safeParse (zod, valibot adapters, hand-written parsers).
+ * toJSONSchema, when present, is used to describe the expected shape to the LLM.
+ */
+export interface SchemaParser<T> {
+  safeParse(value: unknown): SchemaParseResult<T>;
+  toJSONSchema?(): JsonSchema;
+  description?: string;
+}
+
+export type ExtractSchema<T = unknown> = JsonSchema | SchemaParser<T>;
+
+export type SchemaValidation<T> = { success: true; data: T } | { success: false; errors: string[] };
+
+export function isSchemaParser<T>(schema: ExtractSchema<T>): schema is SchemaParser<T> {
+  return typeof (schema as SchemaParser<T>).safeParse === 'function';
+}
+
+/**
+ * Text describing the expected shape for the prompt, or undefined when a parser cannot describe itself.
+ */
+export function describeSchema(schema: ExtractSchema): string | undefined {
+  if (!isSchemaParser(schema)) {
+    return JSON.stringify(schema, null, 2);
+  }
+  if (typeof schema.toJSONSchema === 'function') {
+    return JSON.stringify(schema.toJSONSchema(), null, 2);
+  }
+  return schema.description;
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function collectErrors(value: unknown, schema: JsonSchema, path: string, errors: string[]): void {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, received ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((candidate) => JSON.stringify(candidate) === JSON.stringify(value))) {
+    errors.push(`${path}: expected one of ${schema.enum.map((candidate) => JSON.stringify(candidate)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string' && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    errors.push(`${path}: must match /${schema.pattern}/`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: expected at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: expected at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      const itemSchema = schema.items;
+      value.forEach((item, index) => collectErrors(item, itemSchema, `${path}[${index}]`, errors));
+    }
+    return;
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+    const properties = schema.properties ?? {};
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        collectErrors(propertyValue, propertySchema, `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        collectErrors(propertyValue, schema.additionalProperties, `${path}.${key}`, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Validate an LLM-produced value. Errors are phrased so they can be sent back to the LLM as-is.
+ */
+export function validateWithSchema<T>(value: unknown, schema: ExtractSchema<T>): SchemaValidation<T> {
+  if (isSchemaParser(schema)) {
+    const parsed = schema.safeParse(value);
+    return parsed.success ? { success: true, data: parsed.data } : { success: false, errors: [parsed.error.message] };
+  }
+  const errors: string[] = [];
+  collectErrors(value, schema, '$', errors);
+  return errors.length === 0 ? { success: true, data: value as T } : { success: false, errors };
+}
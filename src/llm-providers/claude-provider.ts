@@ -1,5 +1,5 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { LLMCallOptions, LLMProvider, LLMRequest } from './llm-provider';
+import { LLMCallOptions, LLMProvider, LLMProviderSettings, LLMRequest, LLMResponse } from './llm-provider';
 import { resolveVisionInput } from './vision-utils';
 
 const DEFAULT_CLAUDE_MODEL = 'claude-3-sonnet-20240229';
@@ -37,9 +37,9 @@ function toClaudeMediaType(mediaType: string): ClaudeImageMediaType {
   }
 }
 
-export function createClaudeProvider(): LLMProvider {
-  const apiKey = process.env.CLAUDE_API_KEY?.trim();
-  const modelId = process.env.CLAUDE_MODEL?.trim() || DEFAULT_CLAUDE_MODEL;
+export function createClaudeProvider(settings: LLMProviderSettings = {}): LLMProvider {
+  const apiKey = settings.apiKey ?? process.env.CLAUDE_API_KEY?.trim();
+  const modelId = settings.model ?? (process.env.CLAUDE_MODEL?.trim() || DEFAULT_CLAUDE_MODEL);
   const maxTokens = resolveClaudeMaxTokens();
   const client = apiKey ? new Anthropic({ apiKey }) : null;
 
@@ -50,7 +50,7 @@ export function createClaudeProvider(): LLMProvider {
       return Boolean(apiKey);
     },
 
-    async callLLM(request: LLMRequest, options: LLMCallOptions): Promise<string> {
+    async callLLM(request: LLMRequest, options: LLMCallOptions): Promise<LLMResponse> {
       if (!client) {
         throw new Error('Claude provider cannot authenticate because CLAUDE_API_KEY is missing.');
       }
@@ -90,7 +90,11 @@ export function createClaudeProvider(): LLMProvider {
         throw new Error('Received empty response from Claude.');
       }
 
-      return textPart.text;
+      return {
+        content: textPart.text,
+        usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
+        model: response.model,
+      };
     },
   };
 }
@@ -4,6 +4,7 @@ import { createTestchimpKeyBasedProvider } from './testchimp-key-provider';
 import { createTestchimpPatBasedProvider } from './testchimp-pat-provider';
 import { createGeminiProvider } from './gemini-provider';
 import { createClaudeProvider } from './claude-provider';
+import { createOpenaiCompatibleProvider } from './openai-compatible-provider';
 
 const PROVIDER_CONFIG = [
   ['openai', createOpenaiProvider],
@@ -11,6 +12,7 @@ const PROVIDER_CONFIG = [
   ['testchimp-pat', createTestchimpPatBasedProvider],
   ['gemini', createGeminiProvider],
   ['claude', createClaudeProvider],
+  ['openai-compatible', createOpenaiCompatibleProvider],
 ] as const;
 
 type ProviderTuple = typeof PROVIDER_CONFIG[number];
@@ -25,3 +27,15 @@ export function getConfiguredProviderFactories(): LLMProviderFactory[] {
 export function getConfiguredProviderNames(): ProviderName[] {
   return [...LLM_PROVIDER_ORDER];
 }
+
+export function isProviderName(value: string): value is ProviderName {
+  return (LLM_PROVIDER_ORDER as string[]).includes(value);
+}
+
+export function getProviderFactory(name: ProviderName): LLMProviderFactory {
+  const entry = PROVIDER_CONFIG.find((candidate) => candidate[0] === name);
+  if (!entry) {
+    throw new Error(`Unknown LLM provider: ${name}`);
+  }
+  return entry[1];
+}
@@ -1,15 +1,34 @@
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { GenerateContentRequest, Part } from '@google/generative-ai/dist/types';
-import { LLMCallOptions, LLMProvider, LLMRequest } from './llm-provider';
+import type { GenerateContentRequest, Part, UsageMetadata } from '@google/generative-ai/dist/types';
+import { LLMCallOptions, LLMProvider, LLMProviderSettings, LLMRequest, LLMResponse, LLMUsage } from './llm-provider';
 import { resolveVisionInput } from './vision-utils';
 import { withTimeout } from './timeout-utils';
 
 const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash';
 
-export function createGeminiProvider(): LLMProvider {
-  const apiKey = process.env.GEMINI_API_KEY?.trim();
-  const modelId = process.env.GEMINI_MODEL?.trim() || DEFAULT_GEMINI_MODEL;
+// Newer API versions break prompt tokens down by modality; the SDK types do not declare it yet
+type GeminiUsageMetadata = UsageMetadata & {
+  promptTokensDetails?: Array<{ modality?: string; tokenCount?: number }>;
+};
+
+function toLLMUsage(metadata: GeminiUsageMetadata | undefined): LLMUsage | undefined {
+  if (!metadata) {
+    return undefined;
+  }
+  const imageTokens = metadata.promptTokensDetails
+    ?.filter((detail) => detail.modality === 'IMAGE')
+    .reduce((total, detail) => total + (detail.tokenCount ?? 0), 0);
+  return {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: metadata.candidatesTokenCount ?? 0,
+    ...(imageTokens ? { imageTokens } : {}),
+  };
+}
+
+export function createGeminiProvider(settings: LLMProviderSettings = {}): LLMProvider {
+  const apiKey = settings.apiKey ?? process.env.GEMINI_API_KEY?.trim();
+  const modelId = settings.model ?? (process.env.GEMINI_MODEL?.trim() || DEFAULT_GEMINI_MODEL);
   const client = apiKey ? new GoogleGenerativeAI(apiKey) : null;
   const model = client ? client.getGenerativeModel({ model: modelId }) : null;
 
@@ -20,7 +39,7 @@ export function createGeminiProvider(): LLMProvider {
       return Boolean(apiKey);
     },
 
-    async callLLM(request: LLMRequest, options: LLMCallOptions): Promise<string> {
+    async callLLM(request: LLMRequest, options: LLMCallOptions): Promise<LLMResponse> {
       if (!client || !model) {
         throw new Error('Gemini provider cannot authenticate because GEMINI_API_KEY is missing.');
       }
@@ -54,7 +73,7 @@ export function createGeminiProvider(): LLMProvider {
       if (!text) {
         throw new Error('Received empty response from Gemini.');
       }
-      return text;
+      return { content: text, usage: toLLMUsage(result.response.usageMetadata), model: modelId };
     },
   };
 }
@@ -8,12 +8,31 @@ export interface LLMCallOptions {
   timeoutMs: number;
 }
 
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  imageTokens?: number;  // Portion of inputTokens spent on the screenshot, when the provider reports it
+}
+
+export interface LLMResponse {
+  content: string;
+  usage?: LLMUsage;
+  model?: string;  // Model that served the request, used to look up prices
+}
+
 export interface LLMProvider {
   readonly name: string;
 
   canAuthenticate(): boolean;
 
-  callLLM(request: LLMRequest, options: LLMCallOptions): Promise<string>;
+  callLLM(request: LLMRequest, options: LLMCallOptions): Promise<LLMResponse>;
+}
+
+// Explicit credentials and model, taking precedence over the provider's environment variables
+export interface LLMProviderSettings {
+  apiKey?: string;
+  model?: string;
+  baseURL?: string;  // openai-compatible only
 }
 
-export type LLMProviderFactory = () => LLMProvider;
+export type LLMProviderFactory = (settings?: LLMProviderSettings) => LLMProvider;
@@ -0,0 +1,88 @@
+import type { AiActionResult } from '../types';
+import { LLMCallOptions, LLMProvider, LLMRequest, LLMResponse, LLMUsage } from './llm-provider';
+
+/**
+ * One scripted answer: an object is sent as JSON, a string as-is (to exercise malformed
+ * responses), and an Error is thrown as a provider failure (to exercise fallback chains).
+ */
+export type MockLLMReply = Partial<AiActionResult> | Record<string, unknown> | string | Error;
+
+export type MockLLMResponder = (request: LLMRequest, callIndex: number) => MockLLMReply | Promise<MockLLMReply>;
+
+export interface MockProviderOptions {
+  name?: string;  // Defaults to 'mock'; also the key used for price table lookups
+  // Answers consumed in order, or a function computing each answer from the request
+  responses?: MockLLMReply[] | MockLLMResponder;
+  usage?: LLMUsage;  // Reported for every call; defaults to zero tokens
+  model?: string;
+  authenticated?: boolean;  // canAuthenticate() result, false to exercise missing-credential paths
+}
+
+export interface MockLLMProvider extends LLMProvider {
+  /** Every request received so far, in call order. */
+  readonly requests: LLMRequest[];
+  /** Queue more answers behind the remaining ones. */
+  enqueue(...replies: MockLLMReply[]): void;
+  /** Number of queued answers not consumed yet. */
+  pending(): number;
+  /** Forget recorded requests and queued answers. */
+  reset(): void;
+}
+
+const ZERO_USAGE: LLMUsage = { inputTokens: 0, outputTokens: 0 };
+
+/**
+ * In-process LLMProvider answering from a script instead of the network, for offline tests of
+ * ai.* flows. Pass it wherever a provider selection is accepted (context.provider, createAi).
+ */
+export function createMockProvider(options: MockProviderOptions = {}): MockLLMProvider {
+  const responder = typeof options.responses === 'function' ? options.responses : undefined;
+  const queue: MockLLMReply[] = Array.isArray(options.responses) ? [...options.responses] : [];
+  const requests: LLMRequest[] = [];
+
+  const nextReply = async (request: LLMRequest, callIndex: number): Promise<MockLLMReply> => {
+    if (queue.length > 0) {
+      return queue.shift() as MockLLMReply;
+    }
+    if (responder) {
+      return responder(request, callIndex);
+    }
+    throw new Error(`Mock LLM provider has no response queued for call #${callIndex + 1}.`);
+  };
+
+  return {
+    name: options.name ?? 'mock',
+    requests,
+
+    canAuthenticate(): boolean {
+      return options.authenticated ?? true;
+    },
+
+    async callLLM(request: LLMRequest, _options: LLMCallOptions): Promise<LLMResponse> {
+      const callIndex = requests.length;
+      requests.push(request);
+      const reply = await nextReply(request, callIndex);
+      if (reply instanceof Error) {
+        throw reply;
+      }
+      return {
+        content: typeof reply === 'string' ? reply : JSON.stringify(reply),
+        usage: { ...(options.usage ?? ZERO_USAGE) },
+        model: options.model,
+      };
+    },
+
+    enqueue(...replies: MockLLMReply[]): void {
+      queue.push(...replies);
+    },
+
+    pending(): number {
+      return queue.length;
+    },
+
+    reset(): void {
+      requests.length = 0;
+      queue.length = 0;
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import OpenAI from 'openai';
+import { LLMCallOptions, LLMProvider, LLMProviderSettings, LLMRequest, LLMResponse } from './llm-provider';
+import { buildUserContent, toLLMUsage } from './openai-provider';
+
+// Most local servers ignore the key, but the OpenAI SDK refuses to start without one
+const PLACEHOLDER_API_KEY = 'not-needed';
+const CODE_FENCE_REGEX = /^```(?:json)?\s*([\s\S]*?)\s*```$/i;
+
+function resolveJsonMode(): boolean {
+  const raw = process.env.OPENAI_COMPATIBLE_JSON_MODE?.trim().toLowerCase();
+  if (!raw) {
+    return true;
+  }
+  return !(raw === '0' || raw === 'false' || raw === 'no' || raw === 'off');
+}
+
+function stripCodeFence(content: string): string {
+  const trimmed = content.trim();
+  const match = CODE_FENCE_REGEX.exec(trimmed);
+  return match ? match[1] : trimmed;
+}
+
+export function createOpenaiCompatibleProvider(settings: LLMProviderSettings = {}): LLMProvider {
+  const baseURL = settings.baseURL ?? process.env.OPENAI_COMPATIBLE_BASE_URL?.trim();
+  const model = settings.model ?? process.env.OPENAI_COMPATIBLE_MODEL?.trim();
+  const apiKey = settings.apiKey ?? (process.env.OPENAI_COMPATIBLE_API_KEY?.trim() || PLACEHOLDER_API_KEY);
+  const jsonMode = resolveJsonMode();
+  const client = baseURL && model ? new OpenAI({ apiKey, baseURL }) : null;
+
+  return {
+    name: 'openai-compatible',
+
+    canAuthenticate(): boolean {
+      return Boolean(baseURL && model);
+    },
+
+    async callLLM(request: LLMRequest, options: LLMCallOptions): Promise<LLMResponse> {
+      if (!client || !model) {
+        throw new Error(
+          'OpenAI-compatible provider is not configured because OPENAI_COMPATIBLE_BASE_URL or OPENAI_COMPATIBLE_MODEL is missing.',
+        );
+      }
+
+      const response = await client.chat.completions.create(
+        {
+          model,
+          ...(jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+          messages: [
+            { role: 'system', content: request.systemPrompt },
+            {
+              role: 'user',
+              content: buildUserContent(request),
+            },
+          ],
+        },
+        { timeout: options.timeoutMs },
+      );
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error(`Received empty response from OpenAI-compatible endpoint ${baseURL}.`);
+      }
+
+      // Local models frequently wrap JSON in markdown fences even when asked not to
+      return {
+        content: stripCodeFence(content),
+        usage: toLLMUsage(response.usage),
+        // Local servers often echo an empty or generic model id; prefer the configured one for price lookups
+        model,
+      };
+    },
+  };
+}
@@ -1,5 +1,6 @@
 import OpenAI from 'openai';
-import { LLMCallOptions, LLMProvider, LLMRequest } from './llm-provider';
+import type { CompletionUsage } from 'openai/resources/completions';
+import { LLMCallOptions, LLMProvider, LLMProviderSettings, LLMRequest, LLMResponse, LLMUsage } from './llm-provider';
 
 const DEFAULT_OPENAI_MODEL = 'gpt-5-mini';
 
@@ -7,7 +8,7 @@ type UserMessagePart =
   | { type: 'text'; text: string }
   | { type: 'image_url'; image_url: { url: string } };
 
-function buildUserContent(request: LLMRequest): string | UserMessagePart[] {
+export function buildUserContent(request: LLMRequest): string | UserMessagePart[] {
   if (!request.image) {
     return request.userPrompt;
   }
@@ -18,9 +19,16 @@ function buildUserContent(request: LLMRequest): string | UserMessagePart[] {
   ];
 }
 
-export function createOpenaiProvider(): LLMProvider {
-  const apiKey = process.env.OPENAI_API_KEY?.trim();
-  const model = process.env.OPENAI_MODEL?.trim() || DEFAULT_OPENAI_MODEL;
+export function toLLMUsage(usage: CompletionUsage | undefined): LLMUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens };
+}
+
+export function createOpenaiProvider(settings: LLMProviderSettings = {}): LLMProvider {
+  const apiKey = settings.apiKey ?? process.env.OPENAI_API_KEY?.trim();
+  const model = settings.model ?? (process.env.OPENAI_MODEL?.trim() || DEFAULT_OPENAI_MODEL);
   const client = apiKey ? new OpenAI({ apiKey }) : null;
 
   return {
@@ -30,7 +38,7 @@ export function createOpenaiProvider(): LLMProvider {
       return Boolean(apiKey);
     },
 
-    async callLLM(request: LLMRequest, options: LLMCallOptions): Promise<string> {
+    async callLLM(request: LLMRequest, options: LLMCallOptions): Promise<LLMResponse> {
       if (!client) {
         throw new Error('OpenAI provider cannot authenticate because OPENAI_API_KEY is missing.');
       }
@@ -55,7 +63,7 @@ export function createOpenaiProvider(): LLMProvider {
         throw new Error('Received empty response from OpenAI.');
       }
 
-      return content;
+      return { content, usage: toLLMUsage(response.usage), model: response.model };
     },
   };
 }
@@ -1,7 +1,28 @@
-import { getConfiguredProviderFactories, getConfiguredProviderNames } from './config';
-import { LLMProvider } from './llm-provider';
+import {
+  getConfiguredProviderFactories,
+  getConfiguredProviderNames,
+  getProviderFactory,
+  isProviderName,
+  ProviderName,
+} from './config';
+import { LLMProvider, LLMProviderSettings } from './llm-provider';
+
+const PROVIDER_SELECTION_ENV = 'AI_PLAYWRIGHT_LLM_PROVIDER';
+
+// A built-in provider with explicit settings instead of its environment variables
+export interface ProviderConfig extends LLMProviderSettings {
+  name: ProviderName;
+}
+
+// A built-in provider by name or with settings, or a custom LLMProvider instance
+export type ProviderEntry = ProviderName | ProviderConfig | LLMProvider;
+
+// A single provider, or an ordered fallback chain (primary first)
+export type ProviderSelection = ProviderEntry | ProviderEntry[];
 
 let cachedProvider: LLMProvider | null = null;
+const namedProviders = new Map<ProviderName, LLMProvider>();
+const configuredProviders = new Map<string, LLMProvider>();
 
 export function resolveActiveLLMProvider(): LLMProvider {
   if (cachedProvider) {
@@ -22,6 +43,86 @@ export function resolveActiveLLMProvider(): LLMProvider {
   );
 }
 
+function getNamedProvider(name: ProviderName): LLMProvider {
+  let provider = namedProviders.get(name);
+  if (!provider) {
+    provider = getProviderFactory(name)();
+    namedProviders.set(name, provider);
+  }
+  return provider;
+}
+
+function getConfiguredProvider(config: ProviderConfig): LLMProvider {
+  assertProviderName(config.name);
+  const key = JSON.stringify(config);
+  let provider = configuredProviders.get(key);
+  if (!provider) {
+    const { name, ...settings } = config;
+    provider = getProviderFactory(name)(settings);
+    configuredProviders.set(key, provider);
+  }
+  return provider;
+}
+
+function isProviderInstance(entry: ProviderEntry): entry is LLMProvider {
+  return typeof entry === 'object' && typeof (entry as LLMProvider).callLLM === 'function';
+}
+
+function assertProviderName(name: string): void {
+  if (!isProviderName(name)) {
+    throw new Error(
+      `Unknown LLM provider "${name}". Configured providers: ${getConfiguredProviderNames().join(', ')}.`,
+    );
+  }
+}
+
+export function parseProviderSelection(value: string): ProviderName[] {
+  const names = value
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  names.forEach(assertProviderName);
+  return names as ProviderName[];
+}
+
+function resolveSelectedProviders(selection?: ProviderSelection): LLMProvider[] {
+  if (selection) {
+    const entries = Array.isArray(selection) ? selection : [selection];
+    return entries.map((entry) => {
+      if (typeof entry === 'string') {
+        assertProviderName(entry);
+        return getNamedProvider(entry);
+      }
+      return isProviderInstance(entry) ? entry : getConfiguredProvider(entry);
+    });
+  }
+  const fromEnv = process.env[PROVIDER_SELECTION_ENV]?.trim();
+  return fromEnv ? parseProviderSelection(fromEnv).map(getNamedProvider) : [];
+}
+
+/**
+ * Resolve the ordered list of providers to try for an LLM call.
+ * Without an explicit selection (per call or via AI_PLAYWRIGHT_LLM_PROVIDER) this is the
+ * first provider that can authenticate, in LLM_PROVIDER_ORDER.
+ */
+export function resolveLLMProviderChain(selection?: ProviderSelection): LLMProvider[] {
+  const selected = resolveSelectedProviders(selection);
+  if (selected.length === 0) {
+    return [resolveActiveLLMProvider()];
+  }
+
+  const providers = selected.filter((provider) => provider.canAuthenticate());
+  if (providers.length === 0) {
+    const names = selected.map((provider) => provider.name).join(', ');
+    throw new Error(
+      `Missing authentication. None of the selected LLM providers (${names}) has credentials configured.`,
+    );
+  }
+  return providers;
+}
+
 export function resetProviderCacheForTesting(): void {
   cachedProvider = null;
+  namedProviders.clear();
+  configuredProviders.clear();
 }
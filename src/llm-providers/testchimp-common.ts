@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { LLMRequest } from './llm-provider';
+import { LLMRequest, LLMResponse } from './llm-provider';
 
 const TESTCHIMP_ENDPOINT_PATH = '/localagent/call_llm';
 const DEFAULT_TESTCHIMP_BASE_URL = 'https://featureservice.testchimp.io';
@@ -17,7 +17,7 @@ export async function performTestchimpRequest(
   headers: TestchimpHeaders,
   request: LLMRequest,
   timeoutMs: number,
-): Promise<string> {
+): Promise<LLMResponse> {
   const payload: Record<string, unknown> = {
     system_prompt: request.systemPrompt,
     user_prompt: request.userPrompt,
@@ -37,5 +37,6 @@ export async function performTestchimpRequest(
     throw new Error('TestChimp backend returned an unexpected response format.');
   }
 
-  return content;
+  // The backend does not report token usage; these calls are billed through TestChimp
+  return { content };
 }
@@ -1,4 +1,4 @@
-import { LLMCallOptions, LLMProvider, LLMRequest } from './llm-provider';
+import { LLMCallOptions, LLMProvider, LLMRequest, LLMResponse } from './llm-provider';
 import { performTestchimpRequest } from './testchimp-common';
 
 export function createTestchimpKeyBasedProvider(): LLMProvider {
@@ -12,7 +12,7 @@ export function createTestchimpKeyBasedProvider(): LLMProvider {
       return Boolean(apiKey && projectId);
     },
 
-    async callLLM(request: LLMRequest, options: LLMCallOptions): Promise<string> {
+    async callLLM(request: LLMRequest, options: LLMCallOptions): Promise<LLMResponse> {
       if (!apiKey || !projectId) {
         throw new Error(
           'TestChimp key-based provider cannot authenticate because TESTCHIMP_API_KEY or TESTCHIMP_PROJECT_ID is missing.',
@@ -1,4 +1,4 @@
-import { LLMCallOptions, LLMProvider, LLMRequest } from './llm-provider';
+import { LLMCallOptions, LLMProvider, LLMRequest, LLMResponse } from './llm-provider';
 import { performTestchimpRequest } from './testchimp-common';
 
 export function createTestchimpPatBasedProvider(): LLMProvider {
@@ -12,7 +12,7 @@ export function createTestchimpPatBasedProvider(): LLMProvider {
       return Boolean(userAuthKey && userMail);
     },
 
-    async callLLM(request: LLMRequest, options: LLMCallOptions): Promise<string> {
+    async callLLM(request: LLMRequest, options: LLMCallOptions): Promise<LLMResponse> {
       if (!userAuthKey || !userMail) {
         throw new Error(
           'TestChimp PAT-based provider cannot authenticate because TESTCHIMP_USER_AUTH_KEY or TESTCHIMP_USER_MAIL is missing.',
@@ -1,5 +1,6 @@
 import type { Page } from '@playwright/test';
 import { debugLog } from './ai-client';
+import { redactLogger } from './secrets';
 
 type Logger = (message: string) => void;
 
@@ -20,13 +21,13 @@ const LOADING_PATTERN = /loading|spinner|please wait|processing|fetching|fetch d
 
 export async function waitForPageStability(page: Page, options: StabilizeOptions = {}): Promise<void> {
   const {
-    logger,
     description = 'page',
     networkIdleTimeoutMs = DEFAULT_NETWORK_IDLE_TIMEOUT,
     domContentTimeoutMs = DEFAULT_DOM_CONTENT_TIMEOUT,
     ariaChecks = DEFAULT_ARIA_CHECKS,
     ariaCheckIntervalMs = DEFAULT_ARIA_CHECK_INTERVAL_MS,
   } = options;
+  const logger = redactLogger(options.logger);
 
   debugLog('Stabilizing page before AI action', {
     description,
@@ -0,0 +1,124 @@
+import { debugLog } from './ai-client';
+import type { LLMRequest } from './llm-providers/llm-provider';
+import type { SemanticCommandResult } from './som-types';
+import { redactSecrets } from './secrets';
+import { resolveTestInfo } from './test-info';
+
+const REPORT_ARTIFACTS_FLAG = 'AI_PLAYWRIGHT_REPORT_ARTIFACTS';
+const STEP_TITLE_MAX_CHARS = 100;
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,([\s\S]*)$/;
+
+type ArtifactContext = { test?: unknown; testInfo?: unknown } | undefined;
+
+type AttachTestInfo = {
+  attach(name: string, options: { body: string | Buffer; contentType: string }): Promise<void>;
+};
+
+type StepHost = {
+  step<T>(title: string, body: () => Promise<T>, options?: { box?: boolean }): Promise<T>;
+};
+
+export function isArtifactsEnabled(): boolean {
+  const value = process.env[REPORT_ARTIFACTS_FLAG]?.trim().toLowerCase();
+  if (!value) {
+    return true;
+  }
+  return !(value === '0' || value === 'false' || value === 'no' || value === 'off');
+}
+
+function canAttach(value: unknown): value is AttachTestInfo {
+  return typeof value === 'object' && value !== null && typeof (value as AttachTestInfo).attach === 'function';
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+export function formatStepTitle(kind: string, text: string): string {
+  const singleLine = redactSecrets(text).replace(/\s*\n\s*/g, ' ').trim();
+  const clipped = singleLine.length > STEP_TITLE_MAX_CHARS ? `${singleLine.slice(0, STEP_TITLE_MAX_CHARS - 1)}…` : singleLine;
+  return `${kind}: ${clipped}`;
+}
+
+/**
+ * Run an AI call inside test.step so it shows up as a single, titled step in the report.
+ * Falls back to running the body directly outside of a Playwright test.
+ */
+export async function runAiStep<T>(context: ArtifactContext, title: string, body: () => Promise<T>): Promise<T> {
+  const testObj = context?.test as { step?: unknown } | undefined;
+  // test.step is only valid while a test is running; test.info() tells us whether one is
+  if (typeof testObj?.step !== 'function' || !resolveTestInfo({ test: testObj }, isObject)) {
+    return body();
+  }
+  // box: failures point at the spec line that called ai.*, not at library internals
+  return (testObj as StepHost).step(title, body, { box: true });
+}
+
+function toImageAttachment(dataUrl: string): { body: Buffer; contentType: string } | undefined {
+  const match = DATA_URL_PATTERN.exec(dataUrl);
+  return match ? { body: Buffer.from(match[2], 'base64'), contentType: match[1] } : undefined;
+}
+
+export interface AiStepArtifacts {
+  attachRequest(request: LLMRequest, somMap?: string): Promise<void>;
+  attachResponse(raw: string): Promise<void>;
+  trackCommandResults(results: SemanticCommandResult[]): void;
+  finish(): Promise<void>;
+}
+
+/**
+ * Attaches what the LLM saw and answered for one ai.* call to the Playwright report.
+ * Each request/response pair is numbered so multi-iteration calls stay readable.
+ */
+export function createStepArtifacts(context: ArtifactContext, label: string): AiStepArtifacts {
+  const testInfo = context && isArtifactsEnabled() ? resolveTestInfo(context, canAttach) : undefined;
+  let iteration = 0;
+  let commandResults: SemanticCommandResult[] | undefined;
+
+  const attach = async (name: string, body: string | Buffer, contentType: string): Promise<void> => {
+    if (!testInfo) {
+      return;
+    }
+    try {
+      await testInfo.attach(name, { body, contentType });
+    } catch (error) {
+      debugLog('Failed to attach AI step artifact', { name, error: (error as Error).message });
+    }
+  };
+
+  return {
+    async attachRequest(request: LLMRequest, somMap?: string): Promise<void> {
+      iteration += 1;
+      if (!testInfo) {
+        return;
+      }
+      const prefix = `${label} #${iteration}`;
+      const image = request.image ? toImageAttachment(request.image) : undefined;
+      if (image) {
+        await attach(`${prefix} screenshot`, image.body, image.contentType);
+      }
+      if (somMap) {
+        await attach(`${prefix} element map`, redactSecrets(somMap), 'text/plain');
+      }
+      await attach(
+        `${prefix} prompt`,
+        redactSecrets(`SYSTEM:\n${request.systemPrompt}\n\nUSER:\n${request.userPrompt}`),
+        'text/plain',
+      );
+    },
+
+    async attachResponse(raw: string): Promise<void> {
+      await attach(`${label} #${iteration} response`, redactSecrets(raw), 'application/json');
+    },
+
+    trackCommandResults(results: SemanticCommandResult[]): void {
+      commandResults = results;
+    },
+
+    async finish(): Promise<void> {
+      if (commandResults && commandResults.length > 0) {
+        await attach(`${label} commands`, redactSecrets(JSON.stringify(commandResults, null, 2)), 'application/json');
+      }
+    },
+  };
+}
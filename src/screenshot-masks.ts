@@ -0,0 +1,57 @@
+import type { Locator, Page } from '@playwright/test';
+import type { AiSettings } from './ai-config';
+import { findSecretMasks, isSecretMaskingEnabled } from './secrets';
+
+const MASK_SENSITIVE_ENV = 'AI_PLAYWRIGHT_MASK_SENSITIVE';
+
+// Markup opts in explicitly, so these regions are masked whether or not detection is enabled
+const MASK_ATTRIBUTE_SELECTOR = '[data-ai-mask]';
+
+// Password fields and the usual markup of card forms (autocomplete tokens, then common names)
+const SENSITIVE_FIELD_SELECTORS = [
+  'input[type="password"]',
+  '[autocomplete~="cc-number"]',
+  '[autocomplete~="cc-csc"]',
+  '[autocomplete~="cc-exp"]',
+  '[autocomplete~="cc-exp-month"]',
+  '[autocomplete~="cc-exp-year"]',
+  'input[name*="cardnumber" i]',
+  'input[name*="card-number" i]',
+  'input[name*="card_number" i]',
+  'input[name*="ccnum" i]',
+  'input[name*="cvv" i]',
+  'input[name*="cvc" i]',
+  'input[id*="cardnumber" i]',
+  'input[id*="card-number" i]',
+  'input[id*="cvv" i]',
+  'input[id*="cvc" i]',
+];
+
+function isSensitiveMaskingEnabled(configured?: boolean): boolean {
+  if (configured !== undefined) {
+    return configured;
+  }
+  const value = process.env[MASK_SENSITIVE_ENV]?.trim().toLowerCase();
+  return value === '1' || value === 'true' || value === 'yes' || value === 'on';
+}
+
+/**
+ * Locators to paint over (page.screenshot's mask option) before a screenshot is sent to the LLM:
+ * [data-ai-mask] elements, the configured selectors, detected sensitive fields and fields showing
+ * a registered secret. Selectors are applied in every frame, so iframes (embedded payment forms,
+ * same-origin or not) are masked like the page itself. Locators matching nothing are harmless,
+ * so no counting is needed.
+ */
+export async function resolveScreenshotMasks(page: Page, settings?: AiSettings): Promise<Locator[]> {
+  const screenshot = settings?.screenshot;
+  const selectors = [MASK_ATTRIBUTE_SELECTOR, ...(screenshot?.mask ?? [])];
+  if (isSensitiveMaskingEnabled(screenshot?.mask_sensitive)) {
+    selectors.push(...SENSITIVE_FIELD_SELECTORS);
+  }
+  const frames = page.frames().filter((frame) => !frame.isDetached());
+  const masks = frames.flatMap((frame) => selectors.map((selector) => frame.locator(selector)));
+  if (isSecretMaskingEnabled(screenshot?.mask_secrets)) {
+    masks.push(...(await findSecretMasks(page)));
+  }
+  return masks;
+}
@@ -0,0 +1,116 @@
+import type { Page } from '@playwright/test';
+
+// Each chunk overlaps the previous one so rows cut at the viewport edge are seen whole once
+const SCROLL_STEP_RATIO = 0.8;
+
+export const DEFAULT_SCROLL_MAX_CHUNKS = 20;
+
+export interface ScrollExtractOptions {
+  container?: string;  // Selector of the scroll container; the page itself when omitted
+  max_chunks?: number;
+}
+
+type ScrollState = { top: number; height: number; clientHeight: number };
+
+export interface ScrollCursor {
+  /** Scroll to the top of the target, remembering where it was. */
+  start(): Promise<void>;
+  /**
+   * Scroll one chunk further. Returns false at the end of the content, after giving
+   * infinite-scroll lists the chance to load more rows via settle().
+   */
+  advance(settle: () => Promise<void>): Promise<boolean>;
+  /** Return to the position remembered by start(). */
+  restore(): Promise<void>;
+}
+
+export function createScrollCursor(page: Page, container?: string): ScrollCursor {
+  const target = container ? page.locator(container).first() : undefined;
+  let initialTop = 0;
+
+  const readState = (): Promise<ScrollState> =>
+    target
+      ? target.evaluate((el) => ({ top: el.scrollTop, height: el.scrollHeight, clientHeight: el.clientHeight }))
+      : page.evaluate(() => {
+          const el = document.scrollingElement || document.documentElement;
+          return { top: el.scrollTop, height: el.scrollHeight, clientHeight: window.innerHeight };
+        });
+
+  const scrollTo = (top: number): Promise<void> =>
+    target
+      ? target.evaluate((el, value) => {
+          el.scrollTop = value;
+        }, top)
+      : page.evaluate((value) => window.scrollTo(0, value), top);
+
+  return {
+    async start(): Promise<void> {
+      initialTop = (await readState()).top;
+      await scrollTo(0);
+    },
+
+    async advance(settle: () => Promise<void>): Promise<boolean> {
+      const before = await readState();
+      const step = Math.max(1, Math.round(before.clientHeight * SCROLL_STEP_RATIO));
+      await scrollTo(before.top + step);
+      let after = await readState();
+      if (after.top > before.top) {
+        return true;
+      }
+      // At the bottom: infinite-scroll lists load more rows once the end is reached
+      await settle();
+      after = await readState();
+      if (after.height <= before.height) {
+        return false;
+      }
+      await scrollTo(before.top + step);
+      after = await readState();
+      return after.top > before.top;
+    },
+
+    async restore(): Promise<void> {
+      await scrollTo(initialTop);
+    },
+  };
+}
+
+// JSON key that ignores property order, so the same row extracted twice compares equal
+function stableKey(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableKey).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableKey((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+// Length of the longest run of items that ends `previous` and starts `next`
+function overlapLength(previous: string[], next: string[]): number {
+  for (let length = Math.min(previous.length, next.length); length > 0; length--) {
+    const tail = previous.slice(previous.length - length);
+    if (tail.every((key, index) => key === next[index])) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Concatenate the items extracted from each chunk. Only the rows a chunk repeats from the end
+ * of the previous one (the overlapping strip) are dropped; identical rows elsewhere are kept.
+ */
+export function mergeChunkItems<T>(chunks: T[][]): T[] {
+  const merged: T[] = [];
+  let previousKeys: string[] = [];
+  for (const chunk of chunks) {
+    const keys = chunk.map(stableKey);
+    const skip = overlapLength(previousKeys, keys);
+    merged.push(...chunk.slice(skip));
+    previousKeys = keys;
+  }
+  return merged;
+}
@@ -0,0 +1,224 @@
+import type { Locator, Page } from '@playwright/test';
+
+const SECRETS_ENV = 'AI_PLAYWRIGHT_SECRETS';
+const MASK_SECRETS_ENV = 'AI_PLAYWRIGHT_MASK_SECRETS';
+const SECRET_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+const SECRET_PLACEHOLDER_PATTERN = /\{\{secret:([A-Za-z0-9_.-]+)\}\}/g;
+const SECRET_MASK_ATTRIBUTE = 'data-ai-wright-secret';
+
+// Process-wide, like the price table: values registered by one client are masked for all of them
+const secrets = new Map<string, string>();
+let envSecretsLoaded = false;
+
+function loadEnvSecrets(): void {
+  if (envSecretsLoaded) {
+    return;
+  }
+  envSecretsLoaded = true;
+  const names = (process.env[SECRETS_ENV] ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  for (const name of names) {
+    const value = process.env[name];
+    if (value && SECRET_NAME_PATTERN.test(name) && !secrets.has(name)) {
+      secrets.set(name, value);
+    }
+  }
+}
+
+export function secretPlaceholder(name: string): string {
+  return `{{secret:${name}}}`;
+}
+
+/**
+ * Register a value that must never reach the LLM, logs or recorded commands. Objectives may
+ * refer to it as {{secret:NAME}}; the literal value is masked to that placeholder wherever it appears.
+ */
+export function registerSecret(name: string, value: string): void {
+  if (!SECRET_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid secret name "${name}": use letters, digits, "_", "." or "-".`);
+  }
+  if (!value) {
+    throw new Error(`Secret "${name}" has an empty value.`);
+  }
+  secrets.set(name, value);
+}
+
+export function registerSecrets(values: Record<string, string>): void {
+  for (const [name, value] of Object.entries(values)) {
+    registerSecret(name, value);
+  }
+}
+
+export function hasSecrets(): boolean {
+  loadEnvSecrets();
+  return secrets.size > 0;
+}
+
+/**
+ * The registered value of a secret. Used at execution time and by generated Playwright code.
+ */
+export function getSecret(name: string): string {
+  loadEnvSecrets();
+  const value = secrets.get(name);
+  if (value === undefined) {
+    throw new Error(`Unknown secret "${name}". Register it with ai.registerSecret or list it in ${SECRETS_ENV}.`);
+  }
+  return value;
+}
+
+// Same escaping as the single-quoted string literals of recorded commands
+function escapeForLiteral(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+// A value with quotes, backslashes or line breaks reads differently once escaped into code or JSON
+function secretForms(value: string): string[] {
+  const forms = [value, escapeForLiteral(value), JSON.stringify(value).slice(1, -1)];
+  forms.push(JSON.stringify(escapeForLiteral(value)).slice(1, -1));
+  return [...new Set(forms)];
+}
+
+/**
+ * Replace every registered secret value in the text with its {{secret:NAME}} placeholder, whether
+ * it appears as-is or escaped inside a string literal or JSON. Longer forms go first so a secret
+ * containing another one is masked as a whole.
+ */
+export function redactSecrets(text: string): string {
+  if (!text || !hasSecrets()) {
+    return text;
+  }
+  const forms = [...secrets.entries()]
+    .flatMap(([name, value]) => secretForms(value).map((form) => [name, form] as const))
+    .sort((a, b) => b[1].length - a[1].length);
+  let redacted = text;
+  for (const [name, form] of forms) {
+    redacted = redacted.split(form).join(secretPlaceholder(name));
+  }
+  return redacted;
+}
+
+/**
+ * redactSecrets applied to every string inside a log payload; other values are returned unchanged.
+ */
+export function redactValue<T>(value: T): T {
+  if (!hasSecrets()) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return redactSecrets(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item)) as T;
+  }
+  if (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item)])) as T;
+  }
+  if (value instanceof Error) {
+    return `${value.name}: ${redactSecrets(value.message)}` as T;
+  }
+  return value;
+}
+
+export function redactLogger<L extends (message: string, ...rest: any[]) => void>(logger: L | undefined): L | undefined {
+  if (!logger) {
+    return undefined;
+  }
+  return ((message: string, ...rest: any[]) => logger(redactSecrets(message), ...rest)) as L;
+}
+
+/**
+ * Substitute {{secret:NAME}} placeholders with their values, right before a value is typed into the page.
+ */
+export function revealSecrets(text: string): string {
+  if (!text || !text.includes('{{secret:')) {
+    return text;
+  }
+  return text.replace(SECRET_PLACEHOLDER_PATTERN, (_match, name: string) => getSecret(name));
+}
+
+/**
+ * Turn secrets inside single-quoted string literals of generated code into ai.secret() calls,
+ * so the snippet types the real value when it runs without putting it in the spec file.
+ */
+export function secretsToCode(code: string): string {
+  return code.replace(/'((?:[^'\\]|\\.)*)'/g, (literal, escapedBody: string) => {
+    // The literal holds the escaped value, so redact it here rather than trust the caller did
+    const body = redactSecrets(escapedBody);
+    if (!body.includes('{{secret:')) {
+      return literal;
+    }
+    const parts = body
+      .split(/(\{\{secret:[A-Za-z0-9_.-]+\}\})/)
+      .filter(Boolean)
+      .map((part) => {
+        const match = /^\{\{secret:([A-Za-z0-9_.-]+)\}\}$/.exec(part);
+        return match ? `ai.secret('${match[1]}')` : `'${part}'`;
+      });
+    return parts.join(' + ');
+  });
+}
+
+export function isSecretMaskingEnabled(configured?: boolean): boolean {
+  if (configured !== undefined) {
+    return configured;
+  }
+  const value = process.env[MASK_SECRETS_ENV]?.trim().toLowerCase();
+  return value === '1' || value === 'true' || value === 'yes' || value === 'on';
+}
+
+/**
+ * Mark inputs and text holding one of the values with the attribute; returns how many were marked.
+ * Runs in the browser, once per frame document.
+ */
+function markSecretElements({ values, attribute }: { values: string[]; attribute: string }): number {
+  document.querySelectorAll(`[${attribute}]`).forEach((el) => el.removeAttribute(attribute));
+  const containsSecret = (text: string | null | undefined) =>
+    Boolean(text) && values.some((secret) => (text as string).includes(secret));
+  let count = 0;
+  document.querySelectorAll('input, textarea').forEach((el) => {
+    if (containsSecret((el as HTMLInputElement).value)) {
+      el.setAttribute(attribute, '');
+      count += 1;
+    }
+  });
+  const walker = document.createTreeWalker(document.body ?? document.documentElement, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.parentElement && containsSecret(node.textContent)) {
+      node.parentElement.setAttribute(attribute, '');
+      count += 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * Locators covering form fields and text that currently show a registered secret, for the mask
+ * option of page.screenshot. Every frame is scanned, so embedded login and payment forms are covered.
+ */
+export async function findSecretMasks(page: Page): Promise<Locator[]> {
+  if (!hasSecrets()) {
+    return [];
+  }
+  const values = [...secrets.values()];
+  const masks: Locator[] = [];
+  for (const frame of page.frames()) {
+    if (frame.isDetached()) {
+      continue;
+    }
+    // Frames can detach or navigate while they are scanned
+    const marked = await frame
+      .evaluate(markSecretElements, { values, attribute: SECRET_MASK_ATTRIBUTE })
+      .catch(() => 0);
+    if (marked > 0) {
+      masks.push(frame.locator(`[${SECRET_MASK_ATTRIBUTE}]`));
+    }
+  }
+  return masks;
+}
@@ -18,6 +18,7 @@ import {
   VerificationType
 } from './som-types';
 import type { TypedSelector } from './som-types';
+import { redactLogger, redactSecrets, revealSecrets } from './secrets';
 
 
 type PlaywrightExpect = typeof import('@playwright/test').expect;
@@ -63,9 +64,444 @@ function getCommandFromError(error: any, fallback: string): string {
   return fallback;
 }
 
+/**
+ * Collect interactive elements of the current document and tag them with tc-som-id attributes.
+ * Runs in the browser via page.evaluate()/frame.evaluate(), so it must stay self-contained.
+ * Ids start at idStart so that elements of child frames continue the main frame's numbering.
+ */
+function collectSomElements(params: { includeOffscreen: boolean, includeDisabled: boolean, idStart: number }): SomElement[] {
+  const { includeOffscreen, includeDisabled, idStart } = params;
+  const doc = document;
+  const elements: any[] = [];
+  let idCounter = idStart;
+  
+  // Helper: Find all shadow roots in the document (recursive, but only called once)
+  function getAllShadowRoots(root: Document | Element = document): ShadowRoot[] {
+    const shadowRoots: ShadowRoot[] = [];
+    
+    // Use TreeWalker for efficient DOM traversal (faster than querySelectorAll('*'))
+    const walker = document.createTreeWalker(
+      root,
+      NodeFilter.SHOW_ELEMENT,
+      null
+    );
+    
+    let node: Node | null = walker.currentNode;
+    while (node) {
+      if ((node as any).shadowRoot) {
+        try {
+          const shadowRoot = (node as any).shadowRoot;
+          shadowRoots.push(shadowRoot);
+          // Recursively find shadow roots inside this shadow root
+          const nestedShadowRoots = getAllShadowRoots(shadowRoot);
+          shadowRoots.push(...nestedShadowRoots);
+        } catch (e) {
+          // Closed shadow root - skip it
+        }
+      }
+      node = walker.nextNode();
+    }
+    
+    return shadowRoots;
+  }
+  
+  // Helper: Query selector in document + all shadow roots
+  // Much more efficient than recursive approach - finds shadow roots once, then queries each
+  function querySelectorAllDeep(selector: string): HTMLElement[] {
+    const results: HTMLElement[] = [];
+    
+    // Query main document
+    doc.querySelectorAll(selector).forEach((el: any) => results.push(el));
+    
+    // Query each shadow root
+    shadowRoots.forEach(shadowRoot => {
+      try {
+        shadowRoot.querySelectorAll(selector).forEach((el: any) => results.push(el));
+      } catch (e) {
+        // Selector might not be valid in shadow context - skip
+      }
+    });
+    
+    return results;
+  }
+  
+  // Find all shadow roots upfront (only once, not per selector!)
+  const shadowRoots = getAllShadowRoots(doc);
+  
+  // Query all interactive elements (including shadow DOM)
+  const interactiveSelectors = [
+    'button', 'input', 'textarea', 'select', 'a[href]',
+    '[role="button"]', '[role="link"]', '[role="textbox"]',
+    '[role="checkbox"]', '[role="radio"]', '[role="combobox"]',
+    '[role="menu"]', '[role="menuitem"]', '[role="option"]',
+    '[onclick]', '[type="submit"]',
+    '[role="tab"]', '[role="switch"]', '[role="spinbutton"]'
+  ];
+  
+  const allInteractive = new Set<HTMLElement>();
+  interactiveSelectors.forEach(selector => {
+    querySelectorAllDeep(selector).forEach((el: any) => allInteractive.add(el));
+  });
+  
+  // Special handling for containers with ARIA attributes that might not be directly clickable
+  // Pattern 1: [aria-haspopup] - dropdowns, menus, dialogs, date pickers
+  // Pattern 2: [aria-expanded] - accordions, collapses, expandable sections
+  // Pattern 3: [role="combobox"] - custom selects without aria-haspopup
+  const ariaContainerSelectors = ['[aria-haspopup]', '[aria-expanded]', '[role="combobox"]'];
+  
+  ariaContainerSelectors.forEach(selector => {
+    querySelectorAllDeep(selector).forEach((container: any) => {
+      // Skip if already marked by other selectors (e.g., button with aria-expanded)
+      if (allInteractive.has(container)) return;
+      
+      const styles = window.getComputedStyle(container);
+      const isContainerClickable = styles.cursor === 'pointer' || 
+                                   container.onclick || 
+                                   container.getAttribute('onclick') ||
+                                   container.tagName === 'BUTTON' ||
+                                   container.tagName === 'A';
+      
+      if (!isContainerClickable) {
+        // Check for clickable children (buttons, icons, inputs)
+        const clickableChild = Array.from(container.children).find((child: any) => {
+          const childStyles = window.getComputedStyle(child);
+          return childStyles.cursor === 'pointer' || 
+                 child.onclick || 
+                 child.getAttribute('onclick') ||
+                 child.tagName === 'BUTTON' ||
+                 child.tagName === 'A' ||
+                 child.tagName === 'INPUT';
+        });
+        
+        if (clickableChild) {
+          // Mark the child, not the container
+          allInteractive.add(clickableChild as HTMLElement);
+        } else {
+          // No clickable child found, mark the container as fallback
+          allInteractive.add(container);
+        }
+      } else {
+        // Container is clickable, mark it
+        allInteractive.add(container);
+      }
+    });
+  });
+  
+  // Also detect styled-as-interactive elements
+  querySelectorAllDeep('div, span, p, li, td').forEach((el: any) => {
+    const styles = window.getComputedStyle(el);
+    const hasClickHandler = el.onclick || el.getAttribute('onclick') ||
+                          el.hasAttribute('data-action') || el.hasAttribute('data-click');
+    
+    if (styles.cursor === 'pointer' || hasClickHandler || el.tabIndex >= 0) {
+      allInteractive.add(el);
+    }
+  });
+  
+  // Special handling for labels wrapping hidden inputs (custom checkbox/radio patterns)
+  // If a label wraps a hidden input and has visible content, mark the label, not the input
+  querySelectorAllDeep('label').forEach((label: any) => {
+    const input = label.querySelector('input[type="checkbox"], input[type="radio"]');
+    if (input) {
+      const inputStyles = window.getComputedStyle(input);
+      const isInputHidden = inputStyles.display === 'none' || 
+                           inputStyles.visibility === 'hidden' ||
+                           parseFloat(inputStyles.opacity) === 0 ||
+                           (input.getBoundingClientRect().width === 0);
+      
+      if (isInputHidden) {
+        // Hidden input with styled label - mark the label instead
+        allInteractive.add(label);
+      }
+    }
+  });
+  
+  // Add canvas elements for canvas-based UI support
+  querySelectorAllDeep('canvas').forEach((canvas: any) => {
+    allInteractive.add(canvas);
+  });
+  
+  // Remove elements that are descendants of "true" interactive elements
+  // (e.g., <span> inside <button> should not get separate marker)
+  // But keep elements inside generic containers (div, section, etc.)
+  const trueInteractiveTags = new Set([
+    'BUTTON', 'A', 'INPUT', 'TEXTAREA', 'SELECT', 'LABEL'
+  ]);
+  
+  const topLevelInteractive = new Set<HTMLElement>();
+  allInteractive.forEach((el: any) => {
+    let hasInteractiveAncestor = false;
+    let parent = el.parentElement;
+    
+    // Check if any ancestor is a "true" interactive element
+    while (parent) {
+      if (allInteractive.has(parent) && trueInteractiveTags.has(parent.tagName)) {
+        hasInteractiveAncestor = true;
+        break;
+      }
+      parent = parent.parentElement;
+    }
+    
+    if (!hasInteractiveAncestor) {
+      topLevelInteractive.add(el);
+    }
+  });
+  
+  /**
+   * Map HTML tag name to valid Playwright role
+   * Handles cases where tag name doesn't match ARIA role (e.g., 'a' → 'link')
+   * Based on W3C ARIA specifications and Playwright's supported roles
+   * This function runs in browser context (inside page.evaluate)
+   */
+  function mapTagToPlaywrightRole(tag: string, elementType?: string): string {
+    // Special case: input elements need type-based mapping
+    if (tag === 'input') {
+      if (elementType === 'checkbox') return 'checkbox';
+      if (elementType === 'radio') return 'radio';
+      if (elementType === 'submit') return 'button';
+      if (elementType === 'button') return 'button';
+      // All other input types (text, password, email, search, etc.) → 'textbox'
+      return 'textbox';
+    }
+    
+    // Map other HTML tag names to valid Playwright roles
+    const tagToRoleMap: Record<string, string> = {
+      'a': 'link',
+      'button': 'button',
+      'textarea': 'textbox',
+      'select': 'combobox',
+      'option': 'option',
+      'img': 'img',
+      'h1': 'heading',
+      'h2': 'heading',
+      'h3': 'heading',
+      'h4': 'heading',
+      'h5': 'heading',
+      'h6': 'heading',
+      'article': 'article',
+      'aside': 'complementary',
+      'main': 'main',
+      'nav': 'navigation',
+      'form': 'form',
+      'table': 'table',
+      'ul': 'list',
+      'ol': 'list',
+      'li': 'listitem',
+    };
+    
+    return tagToRoleMap[tag] || tag; // Fallback to tag name if not mapped
+  }
+  
+  // Filter to visible, non-occluded, enabled elements
+  topLevelInteractive.forEach((el: any) => {
+    const rect = el.getBoundingClientRect();
+    
+    // Skip invisible elements (zero size)
+    if (rect.width === 0 || rect.height === 0) return;
+    
+    // Skip hidden elements (display, visibility, opacity checks)
+    const styles = window.getComputedStyle(el);
+    const isHidden = styles.display === 'none' || 
+                    (styles.visibility === 'hidden' && parseFloat(styles.opacity) === 0);
+    
+    // Special case: Check for visible pseudo-elements (::before, ::after)
+    // Some sites hide the main element but show content via pseudo-elements
+    let hasVisiblePseudo = false;
+    if (styles.visibility === 'hidden' || parseFloat(styles.opacity) === 0) {
+      const before = window.getComputedStyle(el, '::before');
+      const after = window.getComputedStyle(el, '::after');
+      
+      hasVisiblePseudo = (before.content !== 'none' && before.visibility === 'visible' && before.display !== 'none') ||
+                        (after.content !== 'none' && after.visibility === 'visible' && after.display !== 'none');
+    }
+    
+    if (isHidden && !hasVisiblePseudo) return;
+    
+    // Skip disabled elements (they can't be interacted with)
+    // BUT: Include them if includeDisabled=true (for bug artifact reference)
+    const isDisabled = el.disabled || 
+                      el.hasAttribute('disabled') || 
+                      el.getAttribute('aria-disabled') === 'true' ||
+                      el.getAttribute('data-disabled') === 'true' ||
+                      el.classList?.contains('disabled');
+    
+    if (isDisabled && !includeDisabled) return;
+    
+    // Z-index occlusion detection: Check if element is fully blocked
+    // Sample 5 points: center + 4 corners (slightly inset)
+    const centerX = rect.left + rect.width / 2;
+    const centerY = rect.top + rect.height / 2;
+    // Use smaller inset for small elements (min 1px, max 10% of dimension)
+    const inset = Math.max(1, Math.min(rect.width, rect.height) * 0.1);
+    
+    const testPoints = [
+      { x: centerX, y: centerY },  // center
+      { x: rect.left + inset, y: rect.top + inset },  // top-left
+      { x: rect.right - inset, y: rect.top + inset },  // top-right
+      { x: rect.left + inset, y: rect.bottom - inset },  // bottom-left
+      { x: rect.right - inset, y: rect.bottom - inset }  // bottom-right
+    ];
+    
+    // Occlusion detection - only for elements in viewport
+    // For offscreen elements (below fold), skip this check since elementFromPoint doesn't work
+    const isInViewport = rect.top < window.innerHeight && rect.bottom > 0 && 
+                        rect.left < window.innerWidth && rect.right > 0;
+    
+    if (!includeOffscreen && isInViewport) {
+      // Element is in viewport - check if it's occluded
+      let visiblePoints = 0;
+      for (const point of testPoints) {
+        const topEl = document.elementFromPoint(point.x, point.y);
+        if (topEl && (topEl === el || el.contains(topEl) || topEl.contains(el))) {
+          visiblePoints++;
+        }
+      }
+      
+      // Skip fully occluded elements (no visible points)
+      if (visiblePoints < 1) {
+        return;
+      }
+    } else if (includeOffscreen && !isInViewport) {
+      // Element is offscreen - include it without occlusion check
+      // (elementFromPoint doesn't work for offscreen elements)
+    } else if (!includeOffscreen && !isInViewport) {
+      // Viewport-only mode and element not in viewport - skip it
+      return;
+    }
+    
+    // Assign tc-som-id attribute
+    const somId = String(idCounter++);
+    el.setAttribute('tc-som-id', somId);
+    
+    // Capture element details
+    const parent = el.parentElement;
+    
+    // Extract text - if main element is hidden, try to get text from pseudo-elements
+    const originalText = el.textContent?.trim() || '';
+    let displayText = originalText.substring(0, 50);
+    let isTextTruncated = originalText.length > 50;
+    
+    if (hasVisiblePseudo && (!displayText || styles.visibility === 'hidden')) {
+      const before = window.getComputedStyle(el, '::before');
+      const after = window.getComputedStyle(el, '::after');
+      
+      if (before.content && before.content !== 'none') {
+        // Remove surrounding quotes from content
+        displayText = before.content.replace(/^["']|["']$/g, '');
+        isTextTruncated = false; // Pseudo-element content is not truncated
+      } else if (after.content && after.content !== 'none') {
+        displayText = after.content.replace(/^["']|["']$/g, '');
+        isTextTruncated = false; // Pseudo-element content is not truncated
+      }
+    }
+    
+    // For images, the accessible name comes from alt attribute
+    // For other elements, use aria-label if present
+    let accessibleName = el.getAttribute('aria-label') || '';
+    if (el.tagName.toLowerCase() === 'img' && !accessibleName) {
+      accessibleName = el.getAttribute('alt') || '';
+    }
+    
+    // Detect associated <label> element for inputs/textareas/selects
+    // This enables getByLabel() selector generation
+    let labelText = '';
+    const tagLower = el.tagName.toLowerCase();
+    if (['input', 'textarea', 'select'].includes(tagLower)) {
+      // Method 1: Label with for="id"
+      if (el.id) {
+        const label = doc.querySelector(`label[for="${el.id}"]`);
+        if (label) {
+          labelText = label.textContent?.trim() || '';
+        }
+      }
+      
+      // Method 2: Label wrapping the input
+      if (!labelText) {
+        let parent = el.parentElement;
+        while (parent && parent !== doc.body) {
+          if (parent.tagName.toLowerCase() === 'label') {
+            labelText = parent.textContent?.trim() || '';
+            break;
+          }
+          parent = parent.parentElement;
+        }
+      }
+    }
+    
+    elements.push({
+      somId,
+      tag: el.tagName.toLowerCase(),
+      role: (() => {
+        const explicitRole = el.getAttribute('role');
+        if (explicitRole) return explicitRole;
+        // Use helper function to map tag name to valid Playwright role
+        return mapTagToPlaywrightRole(el.tagName.toLowerCase(), el.type || undefined);
+      })(),
+      text: displayText,
+      textTruncated: isTextTruncated,
+      ariaLabel: accessibleName,
+      labelText: labelText,  // Associated <label> text for getByLabel()
+      placeholder: el.placeholder || '',
+      name: el.getAttribute('name') || '',
+      type: el.type || '',
+      id: el.id || '',
+      className: el.className || '',
+      bbox: {
+        x: Math.round(rect.x),
+        y: Math.round(rect.y),
+        width: Math.round(rect.width),
+        height: Math.round(rect.height)
+      },
+      hasVisiblePseudoElement: hasVisiblePseudo,
+      parent: parent ? {
+        tag: parent.tagName.toLowerCase(),
+        role: parent.getAttribute('role') || '',
+        className: parent.className || '',
+        text: parent.textContent?.trim().substring(0, 30) || ''
+      } : undefined
+    });
+  });
+  
+  return elements;
+}
+
+/**
+ * Describe an <iframe>/<frame> element so it can be addressed with frameLocator().
+ * Runs in the browser against the frame element, inside its parent document.
+ */
+function describeFrameElement(frameEl: HTMLIFrameElement): { selector: string; contentLeft: number; contentTop: number } {
+  const tag = frameEl.tagName.toLowerCase();
+  const quote = (value: string) => value.replace(/["\\]/g, '\\$&');
+  const candidates: string[] = [];
+  if (frameEl.id && /^[A-Za-z][\w-]*$/.test(frameEl.id)) {
+    candidates.push(`#${frameEl.id}`);
+  }
+  for (const attr of ['name', 'title', 'src']) {
+    const value = frameEl.getAttribute(attr);
+    if (value) {
+      candidates.push(`${tag}[${attr}="${quote(value)}"]`);
+    }
+  }
+
+  const root = frameEl.getRootNode() as Document | ShadowRoot;
+  let selector = candidates.find((candidate) => root.querySelectorAll(candidate).length === 1);
+  if (!selector) {
+    selector = `${tag} >> nth=${Array.from(root.querySelectorAll(tag)).indexOf(frameEl)}`;
+  }
+
+  // The frame's content box starts inside its border and padding
+  const styles = window.getComputedStyle(frameEl);
+  return {
+    selector,
+    contentLeft: frameEl.clientLeft + parseFloat(styles.paddingLeft || '0'),
+    contentTop: frameEl.clientTop + parseFloat(styles.paddingTop || '0'),
+  };
+}
+
 export class PageSoMHandler {
   private page: any;  // Playwright Page
   private somMap: Map<string, SomElement>;
+  private somFrames: Map<string, any> = new Map();  // somId → Playwright Frame, for elements inside child frames
   private canvasInjected: boolean = false;
   private mutationsList: DomMutation[] = [];
   private mutationObserver: any = null;  // MutationObserver only exists in browser context
@@ -74,12 +510,13 @@ export class PageSoMHandler {
   constructor(page: any, logger?: (message: string, level?: 'log' | 'error' | 'warn') => void) {
     this.page = page;
     this.somMap = new Map();
-    this.logger = logger;
+    this.logger = redactLogger(logger);
   }
   
   setPage(page: any): void {
     this.page = page;
     this.somMap.clear();
+    this.somFrames.clear();
     this.canvasInjected = false;
     this.disconnectMutationObserver();
   }
@@ -122,402 +559,12 @@ export class PageSoMHandler {
     // Clear any coordinate markers from previous iteration
     await this.removeCoordinateMarker();
     
-    // Extract interactive elements and assign SoM IDs
-    const elements = await this.page.evaluate((params: { includeOffscreen: boolean, includeDisabled: boolean }) => {
-      const { includeOffscreen, includeDisabled } = params;
-      const doc = document;
-      const elements: any[] = [];
-      let idCounter = 1;
-      
-      // Helper: Find all shadow roots in the document (recursive, but only called once)
-      function getAllShadowRoots(root: Document | Element = document): ShadowRoot[] {
-        const shadowRoots: ShadowRoot[] = [];
-        
-        // Use TreeWalker for efficient DOM traversal (faster than querySelectorAll('*'))
-        const walker = document.createTreeWalker(
-          root,
-          NodeFilter.SHOW_ELEMENT,
-          null
-        );
-        
-        let node: Node | null = walker.currentNode;
-        while (node) {
-          if ((node as any).shadowRoot) {
-            try {
-              const shadowRoot = (node as any).shadowRoot;
-              shadowRoots.push(shadowRoot);
-              // Recursively find shadow roots inside this shadow root
-              const nestedShadowRoots = getAllShadowRoots(shadowRoot);
-              shadowRoots.push(...nestedShadowRoots);
-            } catch (e) {
-              // Closed shadow root - skip it
-            }
-          }
-          node = walker.nextNode();
-        }
-        
-        return shadowRoots;
-      }
-      
-      // Helper: Query selector in document + all shadow roots
-      // Much more efficient than recursive approach - finds shadow roots once, then queries each
-      function querySelectorAllDeep(selector: string): HTMLElement[] {
-        const results: HTMLElement[] = [];
-        
-        // Query main document
-        doc.querySelectorAll(selector).forEach((el: any) => results.push(el));
-        
-        // Query each shadow root
-        shadowRoots.forEach(shadowRoot => {
-          try {
-            shadowRoot.querySelectorAll(selector).forEach((el: any) => results.push(el));
-          } catch (e) {
-            // Selector might not be valid in shadow context - skip
-          }
-        });
-        
-        return results;
-      }
-      
-      // Find all shadow roots upfront (only once, not per selector!)
-      const shadowRoots = getAllShadowRoots(doc);
-      
-      // Query all interactive elements (including shadow DOM)
-      const interactiveSelectors = [
-        'button', 'input', 'textarea', 'select', 'a[href]',
-        '[role="button"]', '[role="link"]', '[role="textbox"]',
-        '[role="checkbox"]', '[role="radio"]', '[role="combobox"]',
-        '[role="menu"]', '[role="menuitem"]', '[role="option"]',
-        '[onclick]', '[type="submit"]',
-        '[role="tab"]', '[role="switch"]', '[role="spinbutton"]'
-      ];
-      
-      const allInteractive = new Set<HTMLElement>();
-      interactiveSelectors.forEach(selector => {
-        querySelectorAllDeep(selector).forEach((el: any) => allInteractive.add(el));
-      });
-      
-      // Special handling for containers with ARIA attributes that might not be directly clickable
-      // Pattern 1: [aria-haspopup] - dropdowns, menus, dialogs, date pickers
-      // Pattern 2: [aria-expanded] - accordions, collapses, expandable sections
-      // Pattern 3: [role="combobox"] - custom selects without aria-haspopup
-      const ariaContainerSelectors = ['[aria-haspopup]', '[aria-expanded]', '[role="combobox"]'];
-      
-      ariaContainerSelectors.forEach(selector => {
-        querySelectorAllDeep(selector).forEach((container: any) => {
-          // Skip if already marked by other selectors (e.g., button with aria-expanded)
-          if (allInteractive.has(container)) return;
-          
-          const styles = window.getComputedStyle(container);
-          const isContainerClickable = styles.cursor === 'pointer' || 
-                                       container.onclick || 
-                                       container.getAttribute('onclick') ||
-                                       container.tagName === 'BUTTON' ||
-                                       container.tagName === 'A';
-          
-          if (!isContainerClickable) {
-            // Check for clickable children (buttons, icons, inputs)
-            const clickableChild = Array.from(container.children).find((child: any) => {
-              const childStyles = window.getComputedStyle(child);
-              return childStyles.cursor === 'pointer' || 
-                     child.onclick || 
-                     child.getAttribute('onclick') ||
-                     child.tagName === 'BUTTON' ||
-                     child.tagName === 'A' ||
-                     child.tagName === 'INPUT';
-            });
-            
-            if (clickableChild) {
-              // Mark the child, not the container
-              allInteractive.add(clickableChild as HTMLElement);
-            } else {
-              // No clickable child found, mark the container as fallback
-              allInteractive.add(container);
-            }
-          } else {
-            // Container is clickable, mark it
-            allInteractive.add(container);
-          }
-        });
-      });
-      
-      // Also detect styled-as-interactive elements
-      querySelectorAllDeep('div, span, p, li, td').forEach((el: any) => {
-        const styles = window.getComputedStyle(el);
-        const hasClickHandler = el.onclick || el.getAttribute('onclick') ||
-                              el.hasAttribute('data-action') || el.hasAttribute('data-click');
-        
-        if (styles.cursor === 'pointer' || hasClickHandler || el.tabIndex >= 0) {
-          allInteractive.add(el);
-        }
-      });
-      
-      // Special handling for labels wrapping hidden inputs (custom checkbox/radio patterns)
-      // If a label wraps a hidden input and has visible content, mark the label, not the input
-      querySelectorAllDeep('label').forEach((label: any) => {
-        const input = label.querySelector('input[type="checkbox"], input[type="radio"]');
-        if (input) {
-          const inputStyles = window.getComputedStyle(input);
-          const isInputHidden = inputStyles.display === 'none' || 
-                               inputStyles.visibility === 'hidden' ||
-                               parseFloat(inputStyles.opacity) === 0 ||
-                               (input.getBoundingClientRect().width === 0);
-          
-          if (isInputHidden) {
-            // Hidden input with styled label - mark the label instead
-            allInteractive.add(label);
-          }
-        }
-      });
-      
-      // Add canvas elements for canvas-based UI support
-      querySelectorAllDeep('canvas').forEach((canvas: any) => {
-        allInteractive.add(canvas);
-      });
-      
-      // Remove elements that are descendants of "true" interactive elements
-      // (e.g., <span> inside <button> should not get separate marker)
-      // But keep elements inside generic containers (div, section, etc.)
-      const trueInteractiveTags = new Set([
-        'BUTTON', 'A', 'INPUT', 'TEXTAREA', 'SELECT', 'LABEL'
-      ]);
-      
-      const topLevelInteractive = new Set<HTMLElement>();
-      allInteractive.forEach((el: any) => {
-        let hasInteractiveAncestor = false;
-        let parent = el.parentElement;
-        
-        // Check if any ancestor is a "true" interactive element
-        while (parent) {
-          if (allInteractive.has(parent) && trueInteractiveTags.has(parent.tagName)) {
-            hasInteractiveAncestor = true;
-            break;
-          }
-          parent = parent.parentElement;
-        }
-        
-        if (!hasInteractiveAncestor) {
-          topLevelInteractive.add(el);
-        }
-      });
-      
-      /**
-       * Map HTML tag name to valid Playwright role
-       * Handles cases where tag name doesn't match ARIA role (e.g., 'a' → 'link')
-       * Based on W3C ARIA specifications and Playwright's supported roles
-       * This function runs in browser context (inside page.evaluate)
-       */
-      function mapTagToPlaywrightRole(tag: string, elementType?: string): string {
-        // Special case: input elements need type-based mapping
-        if (tag === 'input') {
-          if (elementType === 'checkbox') return 'checkbox';
-          if (elementType === 'radio') return 'radio';
-          if (elementType === 'submit') return 'button';
-          if (elementType === 'button') return 'button';
-          // All other input types (text, password, email, search, etc.) → 'textbox'
-          return 'textbox';
-        }
-        
-        // Map other HTML tag names to valid Playwright roles
-        const tagToRoleMap: Record<string, string> = {
-          'a': 'link',
-          'button': 'button',
-          'textarea': 'textbox',
-          'select': 'combobox',
-          'option': 'option',
-          'img': 'img',
-          'h1': 'heading',
-          'h2': 'heading',
-          'h3': 'heading',
-          'h4': 'heading',
-          'h5': 'heading',
-          'h6': 'heading',
-          'article': 'article',
-          'aside': 'complementary',
-          'main': 'main',
-          'nav': 'navigation',
-          'form': 'form',
-          'table': 'table',
-          'ul': 'list',
-          'ol': 'list',
-          'li': 'listitem',
-        };
-        
-        return tagToRoleMap[tag] || tag; // Fallback to tag name if not mapped
-      }
-      
-      // Filter to visible, non-occluded, enabled elements
-      topLevelInteractive.forEach((el: any) => {
-        const rect = el.getBoundingClientRect();
-        
-        // Skip invisible elements (zero size)
-        if (rect.width === 0 || rect.height === 0) return;
-        
-        // Skip hidden elements (display, visibility, opacity checks)
-        const styles = window.getComputedStyle(el);
-        const isHidden = styles.display === 'none' || 
-                        (styles.visibility === 'hidden' && parseFloat(styles.opacity) === 0);
-        
-        // Special case: Check for visible pseudo-elements (::before, ::after)
-        // Some sites hide the main element but show content via pseudo-elements
-        let hasVisiblePseudo = false;
-        if (styles.visibility === 'hidden' || parseFloat(styles.opacity) === 0) {
-          const before = window.getComputedStyle(el, '::before');
-          const after = window.getComputedStyle(el, '::after');
-          
-          hasVisiblePseudo = (before.content !== 'none' && before.visibility === 'visible' && before.display !== 'none') ||
-                            (after.content !== 'none' && after.visibility === 'visible' && after.display !== 'none');
-        }
-        
-        if (isHidden && !hasVisiblePseudo) return;
-        
-        // Skip disabled elements (they can't be interacted with)
-        // BUT: Include them if includeDisabled=true (for bug artifact reference)
-        const isDisabled = el.disabled || 
-                          el.hasAttribute('disabled') || 
-                          el.getAttribute('aria-disabled') === 'true' ||
-                          el.getAttribute('data-disabled') === 'true' ||
-                          el.classList?.contains('disabled');
-        
-        if (isDisabled && !includeDisabled) return;
-        
-        // Z-index occlusion detection: Check if element is fully blocked
-        // Sample 5 points: center + 4 corners (slightly inset)
-        const centerX = rect.left + rect.width / 2;
-        const centerY = rect.top + rect.height / 2;
-        // Use smaller inset for small elements (min 1px, max 10% of dimension)
-        const inset = Math.max(1, Math.min(rect.width, rect.height) * 0.1);
-        
-        const testPoints = [
-          { x: centerX, y: centerY },  // center
-          { x: rect.left + inset, y: rect.top + inset },  // top-left
-          { x: rect.right - inset, y: rect.top + inset },  // top-right
-          { x: rect.left + inset, y: rect.bottom - inset },  // bottom-left
-          { x: rect.right - inset, y: rect.bottom - inset }  // bottom-right
-        ];
-        
-        // Occlusion detection - only for elements in viewport
-        // For offscreen elements (below fold), skip this check since elementFromPoint doesn't work
-        const isInViewport = rect.top < window.innerHeight && rect.bottom > 0 && 
-                            rect.left < window.innerWidth && rect.right > 0;
-        
-        if (!includeOffscreen && isInViewport) {
-          // Element is in viewport - check if it's occluded
-          let visiblePoints = 0;
-          for (const point of testPoints) {
-            const topEl = document.elementFromPoint(point.x, point.y);
-            if (topEl && (topEl === el || el.contains(topEl) || topEl.contains(el))) {
-              visiblePoints++;
-            }
-          }
-          
-          // Skip fully occluded elements (no visible points)
-          if (visiblePoints < 1) {
-            return;
-          }
-        } else if (includeOffscreen && !isInViewport) {
-          // Element is offscreen - include it without occlusion check
-          // (elementFromPoint doesn't work for offscreen elements)
-        } else if (!includeOffscreen && !isInViewport) {
-          // Viewport-only mode and element not in viewport - skip it
-          return;
-        }
-        
-        // Assign tc-som-id attribute
-        const somId = String(idCounter++);
-        el.setAttribute('tc-som-id', somId);
-        
-        // Capture element details
-        const parent = el.parentElement;
-        
-        // Extract text - if main element is hidden, try to get text from pseudo-elements
-        const originalText = el.textContent?.trim() || '';
-        let displayText = originalText.substring(0, 50);
-        let isTextTruncated = originalText.length > 50;
-        
-        if (hasVisiblePseudo && (!displayText || styles.visibility === 'hidden')) {
-          const before = window.getComputedStyle(el, '::before');
-          const after = window.getComputedStyle(el, '::after');
-          
-          if (before.content && before.content !== 'none') {
-            // Remove surrounding quotes from content
-            displayText = before.content.replace(/^["']|["']$/g, '');
-            isTextTruncated = false; // Pseudo-element content is not truncated
-          } else if (after.content && after.content !== 'none') {
-            displayText = after.content.replace(/^["']|["']$/g, '');
-            isTextTruncated = false; // Pseudo-element content is not truncated
-          }
-        }
-        
-        // For images, the accessible name comes from alt attribute
-        // For other elements, use aria-label if present
-        let accessibleName = el.getAttribute('aria-label') || '';
-        if (el.tagName.toLowerCase() === 'img' && !accessibleName) {
-          accessibleName = el.getAttribute('alt') || '';
-        }
-        
-        // Detect associated <label> element for inputs/textareas/selects
-        // This enables getByLabel() selector generation
-        let labelText = '';
-        const tagLower = el.tagName.toLowerCase();
-        if (['input', 'textarea', 'select'].includes(tagLower)) {
-          // Method 1: Label with for="id"
-          if (el.id) {
-            const label = doc.querySelector(`label[for="${el.id}"]`);
-            if (label) {
-              labelText = label.textContent?.trim() || '';
-            }
-          }
-          
-          // Method 2: Label wrapping the input
-          if (!labelText) {
-            let parent = el.parentElement;
-            while (parent && parent !== doc.body) {
-              if (parent.tagName.toLowerCase() === 'label') {
-                labelText = parent.textContent?.trim() || '';
-                break;
-              }
-              parent = parent.parentElement;
-            }
-          }
-        }
-        
-        elements.push({
-          somId,
-          tag: el.tagName.toLowerCase(),
-          role: (() => {
-            const explicitRole = el.getAttribute('role');
-            if (explicitRole) return explicitRole;
-            // Use helper function to map tag name to valid Playwright role
-            return mapTagToPlaywrightRole(el.tagName.toLowerCase(), el.type || undefined);
-          })(),
-          text: displayText,
-          textTruncated: isTextTruncated,
-          ariaLabel: accessibleName,
-          labelText: labelText,  // Associated <label> text for getByLabel()
-          placeholder: el.placeholder || '',
-          name: el.getAttribute('name') || '',
-          type: el.type || '',
-          id: el.id || '',
-          className: el.className || '',
-          bbox: {
-            x: Math.round(rect.x),
-            y: Math.round(rect.y),
-            width: Math.round(rect.width),
-            height: Math.round(rect.height)
-          },
-          hasVisiblePseudoElement: hasVisiblePseudo,
-          parent: parent ? {
-            tag: parent.tagName.toLowerCase(),
-            role: parent.getAttribute('role') || '',
-            className: parent.className || '',
-            text: parent.textContent?.trim().substring(0, 30) || ''
-          } : undefined
-        });
-      });
-      
-      return elements;
-    }, { includeOffscreen, includeDisabled });
+    // Extract interactive elements and assign SoM IDs, main frame first, then child frames
+    const params = { includeOffscreen, includeDisabled };
+    const elements: SomElement[] = await this.page.evaluate(collectSomElements, { ...params, idStart: 1 });
+    this.somFrames.clear();
+    const frames = await this.collectFrameSomElements(this.page.mainFrame(), [], elements.length + 1, params);
+    elements.push(...frames.elements);
     
     // Store in somMap
     this.somMap.clear();
@@ -530,6 +577,71 @@ export class PageSoMHandler {
     return elements.length;
   }
   
+  /**
+   * Collect SoM elements from all child frames of parentFrame (recursively), same-origin or not.
+   * Bounding boxes are translated into main-page viewport coordinates so markers and
+   * coordinate fallbacks line up with the screenshot.
+   */
+  private async collectFrameSomElements(
+    parentFrame: any,
+    parentPath: string[],
+    idStart: number,
+    params: { includeOffscreen: boolean, includeDisabled: boolean }
+  ): Promise<{ elements: SomElement[]; nextId: number }> {
+    const collected: SomElement[] = [];
+    let nextId = idStart;
+    const viewport = this.page.viewportSize();
+
+    for (const frame of parentFrame.childFrames()) {
+      if (frame.isDetached()) continue;
+
+      try {
+        const frameElement = await frame.frameElement();
+        // boundingBox() is relative to the main frame viewport, even for nested frames
+        const box = await frameElement.boundingBox();
+        const description = box && box.width > 0 && box.height > 0
+          ? await frameElement.evaluate(describeFrameElement)
+          : undefined;
+        await frameElement.dispose();
+        if (!box || !description) continue;
+
+        const { selector, contentLeft, contentTop } = description;
+        const framePath = [...parentPath, selector];
+        const offsetX = box.x + contentLeft;
+        const offsetY = box.y + contentTop;
+
+        const frameElements: SomElement[] = await frame.evaluate(collectSomElements, { ...params, idStart: nextId });
+        // Ids are already written to the DOM, so skipped elements still consume theirs
+        nextId += frameElements.length;
+        for (const element of frameElements) {
+          const bbox = {
+            ...element.bbox,
+            x: Math.round(element.bbox.x + offsetX),
+            y: Math.round(element.bbox.y + offsetY),
+          };
+          // The frame itself may be scrolled out of the page viewport
+          const isInPageViewport = !viewport || (
+            bbox.y < viewport.height && bbox.y + bbox.height > 0 &&
+            bbox.x < viewport.width && bbox.x + bbox.width > 0
+          );
+          if (!params.includeOffscreen && !isInPageViewport) continue;
+
+          collected.push({ ...element, bbox, framePath });
+          this.somFrames.set(element.somId, frame);
+        }
+
+        const nested = await this.collectFrameSomElements(frame, framePath, nextId, params);
+        collected.push(...nested.elements);
+        nextId = nested.nextId;
+      } catch (error) {
+        // Frames can detach or navigate while we inspect them
+        this.logger?.(`[PageSoMHandler] Skipping frame ${frame.url()}: ${error}`, 'warn');
+      }
+    }
+
+    return { elements: collected, nextId };
+  }
+
   /**
    * Draw canvas overlay with bounding boxes and ID labels
    */
@@ -702,6 +814,9 @@ export class PageSoMHandler {
       if (element.name) {
         attrs.push(`name: "${element.name.substring(0, 20)}"`);
       }
+      if (element.framePath?.length) {
+        attrs.push(`frame: "${element.framePath.join(' > ')}"`);
+      }
       
       // Combine: [1]: button "Submit" (aria: "submit-form", type: "submit")
       const attrStr = attrs.length > 0 ? ` (${attrs.join(', ')})` : '';
@@ -721,11 +836,106 @@ export class PageSoMHandler {
     return this.somMap.get(somId);
   }
 
+  /**
+   * Resolve a semantic selector that uniquely targets the given SoM element.
+   * Unlike tc-som-id selectors, the result stays valid across page loads and test runs.
+   */
+  async resolveStableSelector(elementRef: string | undefined | null): Promise<TypedSelector | undefined> {
+    const element = this.getSomElementById(elementRef);
+    if (!element || !this.page || this.page.isClosed()) {
+      return undefined;
+    }
+
+    for (const selector of this.generateSemanticSelectors(element)) {
+      try {
+        const locator = this.buildLocatorFromTypedSelector(selector);
+        if ((await locator.count()) !== 1) {
+          continue;
+        }
+        const somId = await locator.getAttribute('tc-som-id', { timeout: 1000 });
+        if (somId === elementRef) {
+          return selector;
+        }
+      } catch {
+        continue;
+      }
+    }
+
+    this.logger?.(`[PageSoMHandler] No unique semantic selector found for element ${elementRef}`, 'log');
+    return undefined;
+  }
+
+  /**
+   * Playwright locator for a SoM element built from its stable semantic selector,
+   * for callers that keep using the element outside the SoM loop.
+   */
+  async getStableLocator(elementRef: string | undefined | null): Promise<{ locator: any; code: string } | undefined> {
+    const selector = await this.resolveStableSelector(elementRef);
+    if (!selector) {
+      return undefined;
+    }
+    return { locator: this.buildLocatorFromTypedSelector(selector), code: this.formatSelector(selector) };
+  }
+
+  /**
+   * Replace tc-som-id based selectors in a recorded Playwright command with the given stable selector,
+   * so the command keeps working outside of an annotated page.
+   */
+  toPortableCommand(playwrightCommand: string, selector: TypedSelector): string {
+    return playwrightCommand.replace(
+      /page(\.frameLocator\('(?:[^'\\]|\\.)*'\))*\.locator\('\[tc-som-id="[^"]*"\]'\)(\.nth\(\d+\))?/g,
+      () => this.formatSelector(selector),
+    );
+  }
+
+  /**
+   * Replay a previously recorded command without consulting the SoM map.
+   * Element commands run directly against the recorded selector; navigation and
+   * viewport-coordinate commands go through runCommand.
+   */
+  async runRecordedCommand(command: SomCommand, selector?: TypedSelector): Promise<SemanticCommandResult> {
+    if (!this.page || this.page.isClosed()) {
+      throw new Error('Cannot replay command: page is null or closed');
+    }
+
+    if (!selector) {
+      return this.runCommand({ ...command, elementRef: undefined });
+    }
+
+    const selectorDesc = this.formatSelector(selector);
+    this.logger?.(`[PageSoMHandler] Replaying ${command.action} on ${selectorDesc}`, 'log');
+
+    try {
+      const locator = this.buildLocatorFromTypedSelector(selector);
+      const playwrightCommand = await this.executeActionOnLocator(locator, command, selectorDesc);
+      return {
+        failedAttempts: [],
+        successAttempt: {
+          command: playwrightCommand,
+          status: CommandRunStatus.SUCCESS
+        },
+        status: CommandRunStatus.SUCCESS
+      };
+    } catch (error: any) {
+      return {
+        failedAttempts: [{
+          command: getCommandFromError(error, selectorDesc),
+          status: CommandRunStatus.FAILURE,
+          error: error.message
+        }],
+        error: error.message,
+        status: CommandRunStatus.FAILURE
+      };
+    }
+  }
+
   private async resolveSomTarget(
     elementRef: string,
     expected: SomElement
   ): Promise<{ index: number; duplicateCount: number; candidates: Array<Record<string, unknown>> }> {
-    const duplicates = await this.page.evaluate((ref: string) => {
+    // Elements inside child frames carry their tc-som-id in the frame's own document
+    const target = this.somFrames.get(elementRef) ?? this.page;
+    const duplicates = await target.evaluate((ref: string) => {
       const nodes = Array.from(document.querySelectorAll(`[tc-som-id="${ref}"]`));
       return nodes.map((node, idx) => {
         const rect = node.getBoundingClientRect();
@@ -859,7 +1069,8 @@ export class PageSoMHandler {
   async getScreenshot(
     includeSomMarkers: boolean,
     fullPage: boolean = false,
-    quality: number = 60
+    quality: number = 60,
+    mask: any[] = []  // Playwright Locators painted over before capture
   ): Promise<string> {
     if (!this.page || this.page.isClosed()) {
       throw new Error('Cannot get screenshot: page is null or closed');
@@ -875,7 +1086,8 @@ export class PageSoMHandler {
     const buffer = await this.page.screenshot({
       fullPage,
       type: 'jpeg',
-      quality
+      quality,
+      mask
     });
     
     // Keep markers visible for debugging - don't hide them
@@ -963,15 +1175,8 @@ export class PageSoMHandler {
       this.logger?.(`[PageSoMHandler] Executing ${command.action} at percentage coords (${command.coord.x}%, ${command.coord.y}%)`, 'log');
       
       try {
-        const result = await this.executePercentageCoordinateAction(command);
-        return {
-          failedAttempts: [],
-          successAttempt: {
-            command: `Coordinate action: ${command.action} at (${command.coord.x}%, ${command.coord.y}%)`,
-            status: CommandRunStatus.SUCCESS
-          },
-          status: CommandRunStatus.SUCCESS
-        };
+        // Keep the concrete page.mouse/keyboard command so the step can be replayed as code
+        return await this.executePercentageCoordinateAction(command);
       } catch (error: any) {
         return {
           failedAttempts: [{
@@ -1053,6 +1258,7 @@ export class PageSoMHandler {
         type: 'locator',
         value: `[tc-som-id="${command.elementRef}"]`,
         nth: duplicateResolution.index > 0 ? duplicateResolution.index : undefined,
+        frameSelectors: element.framePath,
       };
 
       this.logger?.(`[PageSoMHandler] Trying tc-som-id selector first: ${this.formatSelector(somIdSelector)}`, 'log');
@@ -1474,6 +1680,11 @@ export class PageSoMHandler {
       }
     }
     
+    // Elements inside iframes are only reachable through their frame chain
+    if (element.framePath?.length) {
+      return selectors.map((selector) => ({ ...selector, frameSelectors: element.framePath }));
+    }
+    
     return selectors;
   }
   
@@ -1681,10 +1892,13 @@ export class PageSoMHandler {
    * Build Playwright locator from typed selector (supports chaining)
    */
   private buildLocatorFromTypedSelector(typedSelector: TypedSelector): any {
-    // Get base locator (page or parent)
+    // Get base locator (parent, or page/frame chain at the root)
     const base = typedSelector.parent 
       ? this.buildLocatorFromTypedSelector(typedSelector.parent)
-      : this.page;
+      : (typedSelector.frameSelectors || []).reduce(
+          (root: any, frameSelector: string) => root.frameLocator(frameSelector),
+          this.page
+        );
     
     let locator;
     // Build locator from base
@@ -1820,6 +2034,13 @@ export class PageSoMHandler {
       return combined;
     }
     
+    if (sel.frameSelectors?.length) {
+      const frameChain = sel.frameSelectors
+        .map((frameSelector) => `.frameLocator('${this.escapeStringValue(frameSelector)}')`)
+        .join('');
+      formatted = formatted.replace(/^page\./, `page${frameChain}.`);
+    }
+    
     if (typeof sel.nth === 'number' && sel.nth >= 0) {
       formatted = `${formatted}.nth(${sel.nth})`;
     }
@@ -1865,7 +2086,7 @@ export class PageSoMHandler {
           commandString = force
             ? `await ${selector}.fill('${escapedFillValue}', { force: true, timeout: ${timeout} })`
             : `await ${selector}.fill('${escapedFillValue}', { timeout: ${timeout} })`;
-          await locator.fill(fillValue, { force, timeout });
+          await locator.fill(revealSecrets(fillValue), { force, timeout });
           break;
         }
 
@@ -1874,7 +2095,7 @@ export class PageSoMHandler {
           const escapedTypeValue = this.escapeStringValue(typeValue);
           const delay = command.delay || 50;
           commandString = `await ${selector}.pressSequentially('${escapedTypeValue}', { delay: ${delay} })`;
-          await locator.pressSequentially(typeValue, { delay });
+          await locator.pressSequentially(revealSecrets(typeValue), { delay });
           break;
         }
 
@@ -1897,7 +2118,7 @@ export class PageSoMHandler {
           const selectValue = value || '';
           const escapedSelectValue = this.escapeStringValue(selectValue);
           commandString = `await ${selector}.selectOption('${escapedSelectValue}', { timeout: ${timeout} })`;
-          await locator.selectOption(selectValue, { timeout });
+          await locator.selectOption(revealSecrets(selectValue), { timeout });
           break;
         }
 
@@ -1957,6 +2178,32 @@ export class PageSoMHandler {
           }
           break;
 
+        case InteractionAction.UPLOAD: {
+          const files = command.filePaths || [];
+          if (files.length === 0) {
+            throw new Error('UPLOAD action requires files from the upload allowlist');
+          }
+          const filesLiteral = `[${files.map((file) => `'${this.escapeStringValue(file)}'`).join(', ')}]`;
+          const isFileInput = await locator.evaluate(
+            (el: any) => el instanceof HTMLInputElement && el.type === 'file',
+            undefined,
+            { timeout }
+          );
+          if (isFileInput) {
+            commandString = `await ${selector}.setInputFiles(${filesLiteral}, { timeout: ${timeout} })`;
+            await locator.setInputFiles(files, { timeout });
+            break;
+          }
+          // Custom upload buttons open the native file chooser instead of exposing the input
+          commandString = `await Promise.all([page.waitForEvent('filechooser', { timeout: ${timeout} }).then((chooser) => chooser.setFiles(${filesLiteral})), ${selector}.click({ timeout: ${timeout} })])`;
+          const [fileChooser] = await Promise.all([
+            this.page.waitForEvent('filechooser', { timeout }),
+            locator.click({ force, timeout }),
+          ]);
+          await fileChooser.setFiles(files);
+          break;
+        }
+
         default:
           commandString = `await ${selector}.${action}()`;
           throw new Error(`Unsupported action: ${action}`);
@@ -1965,6 +2212,9 @@ export class PageSoMHandler {
       return commandString || `await ${selector}.${action}()`;
     } catch (error: any) {
       error.playwrightCommand = commandString || `await ${selector}.${action}()`;
+      if (typeof error.message === 'string') {
+        error.message = redactSecrets(error.message);
+      }
       throw error;
     }
   }
@@ -1991,6 +2241,7 @@ export class PageSoMHandler {
       canvasSelector = {
         type: 'locator',
         value: `[tc-som-id="${command.elementRef}"]`,
+        frameSelectors: element.framePath,
       };
     }
     
@@ -2062,11 +2313,11 @@ export class PageSoMHandler {
           const escapedValue = this.escapeStringValue(typeValue);
           if (command.action === InteractionAction.FILL) {
             playwrightCommand = `await ${selectorDesc}.click({ position: { x: ${x}, y: ${y} } }); await page.waitForTimeout(100); await page.keyboard.type('${escapedValue}')`;
-            await this.page.keyboard.type(typeValue);
+            await this.page.keyboard.type(revealSecrets(typeValue));
           } else {
             const delay = command.delay || 50;
             playwrightCommand = `await ${selectorDesc}.click({ position: { x: ${x}, y: ${y} } }); await page.waitForTimeout(100); await page.keyboard.type('${escapedValue}', { delay: ${delay} })`;
-            await this.page.keyboard.type(typeValue, { delay });
+            await this.page.keyboard.type(revealSecrets(typeValue), { delay });
           }
           break;
         }
@@ -2226,9 +2477,9 @@ export class PageSoMHandler {
           await this.page.waitForTimeout(100); // Brief wait for focus
           const typeValue = value || '';
           if (action === InteractionAction.FILL) {
-            await this.page.keyboard.type(typeValue);
+            await this.page.keyboard.type(revealSecrets(typeValue));
           } else {
-            await this.page.keyboard.type(typeValue, { delay: command.delay || 50 });
+            await this.page.keyboard.type(revealSecrets(typeValue), { delay: command.delay || 50 });
           }
           const escapedTypeValue = this.escapeStringValue(typeValue);
           playwrightCommand = `await page.mouse.click(${pixelX}, ${pixelY}); await page.keyboard.type('${escapedTypeValue}')`;
@@ -2306,9 +2557,9 @@ export class PageSoMHandler {
           await this.page.mouse.click(centerX, centerY);
           const typeValue = value || '';
           if (action === InteractionAction.FILL) {
-            await this.page.keyboard.type(typeValue);
+            await this.page.keyboard.type(revealSecrets(typeValue));
           } else {
-            await this.page.keyboard.type(typeValue, { delay: command.delay || 50 });
+            await this.page.keyboard.type(revealSecrets(typeValue), { delay: command.delay || 50 });
           }
           const escapedTypeValue = this.escapeStringValue(typeValue);
           playwrightCommand = `await page.mouse.click(${centerX}, ${centerY}); await page.keyboard.type('${escapedTypeValue}')`;
@@ -2444,7 +2695,8 @@ export class PageSoMHandler {
       if (parentClass && !typedSelector.value.includes(parentClass)) {
         const refinedSelector: TypedSelector = {
           type: 'locator',
-          value: `.${parentClass} ${typedSelector.value}`
+          value: `.${parentClass} ${typedSelector.value}`,
+          frameSelectors: typedSelector.frameSelectors
         };
         const selectorDesc = this.formatSelector(refinedSelector);
         this.logger?.(`[PageSoMHandler] Trying refined selector with parent: ${selectorDesc}`, 'log');
@@ -45,7 +45,18 @@ export enum InteractionAction {
   NAVIGATE = 'navigate',  // Go to URL (requires value field)
   GO_BACK = 'goBack',
   GO_FORWARD = 'goForward',
-  RELOAD = 'reload'
+  RELOAD = 'reload',
+  
+  // Tab actions (tab index in value)
+  SWITCH_TAB = 'switchTab',
+  CLOSE_TAB = 'closeTab',
+  
+  // Native dialog actions (prompt text in value)
+  ACCEPT_DIALOG = 'acceptDialog',
+  DISMISS_DIALOG = 'dismissDialog',
+  
+  // File actions (allowlisted file paths in value)
+  UPLOAD = 'upload'
 }
 
 export interface SomCommand {
@@ -56,7 +67,7 @@ export interface SomCommand {
   coord?: Coordinate;     // Percentage-based (x: 0-100, y: 0-100 of viewport)
   elementRelativeAbsoluteCoords?: Coordinate;  // Pixel coordinates (x, y) relative to top-left of element referenced by elementRef. Use only when elementRef points to a canvas element for interactions within the canvas.
   // Action-specific parameters
-  value?: string;         // For fill/type/select/press actions
+  value?: string;         // For fill/type/select/press actions; tab index for switchTab/closeTab; prompt text for acceptDialog; file paths for upload
   fromCoord?: Coordinate; // For drag (start) - percentage-based
   toCoord?: Coordinate;   // For drag (end) - percentage-based
   force?: boolean;        // Force action even if not actionable
@@ -68,6 +79,7 @@ export interface SomCommand {
   delay?: number;         // Delay between keystrokes for TYPE (ms)
   timeout?: number;       // Override default timeout
   durationSeconds?: number; // For waitFor action
+  filePaths?: string[];   // For upload: files resolved from the caller's allowlist (never set by the LLM)
 }
 
 export enum CommandRunStatus {
@@ -110,6 +122,7 @@ export interface SomElement {
   className: string;
   bbox: { x: number; y: number; width: number; height: number };
   hasVisiblePseudoElement?: boolean;  // True if element uses ::before or ::after for visual content
+  framePath?: string[];  // frameLocator() selectors from the main page down to the element's frame (absent in the main frame)
   parent?: {
     tag: string;
     role: string;
@@ -129,6 +142,7 @@ export interface TypedSelector {
   exact?: boolean;  // For text selectors: use exact matching (only if text wasn't truncated)
   parent?: TypedSelector;  // For chaining: page.locator(parent).locator(this)
   nth?: number;            // Optional index disambiguation when multiple nodes match
+  frameSelectors?: string[];  // For elements in iframes: page.frameLocator(a).frameLocator(b)... (root of the chain only)
 }
 
 /**
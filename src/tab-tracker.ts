@@ -0,0 +1,157 @@
+import type { Page } from '@playwright/test';
+import { CommandRunStatus, InteractionAction, SemanticCommandResult, SomCommand } from './som-types';
+
+// page.title() evaluates in the page, which stalls while a native dialog blocks it
+const TAB_TITLE_TIMEOUT_MS = 1_000;
+
+export interface TabInfo {
+  index: number;
+  url: string;
+  title: string;
+  active: boolean;
+}
+
+export interface TabTracker {
+  getActivePage(): Page;
+  indexOf(page: Page): number;
+  /**
+   * Pick up tabs opened or closed since the last call. A newly opened tab (popup, target=_blank)
+   * becomes active; when the active tab was closed, the previously active open tab takes over.
+   */
+  sync(): Page;
+  /** Open tabs with their titles; pages for which isBlocked returns true keep their last known title. */
+  listTabs(isBlocked?: (page: Page) => boolean): Promise<TabInfo[]>;
+  run(command: SomCommand): Promise<SemanticCommandResult>;
+}
+
+export function isTabAction(action: InteractionAction): boolean {
+  return action === InteractionAction.SWITCH_TAB || action === InteractionAction.CLOSE_TAB;
+}
+
+function parseTabIndex(command: SomCommand, fallback?: number): number {
+  const raw = command.value?.trim();
+  if (!raw) {
+    if (fallback === undefined) {
+      throw new Error(`${command.action} requires the tab index in value`);
+    }
+    return fallback;
+  }
+  const index = Number(raw);
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`${command.action} value must be a tab index, received: ${raw}`);
+  }
+  return index;
+}
+
+/**
+ * Tracks the tabs of the browser context that owns the initial page. Tabs are ordered by
+ * opening time and indexed over the pages that are still open.
+ */
+export function createTabTracker(initialPage: Page): TabTracker {
+  const browserContext = initialPage.context();
+  const known = new Set<Page>(browserContext.pages());
+  // Most recently activated last, used to fall back when the active tab closes
+  const history: Page[] = [initialPage];
+  const titles = new WeakMap<Page, string>();
+
+  const openPages = (): Page[] => browserContext.pages().filter((page) => !page.isClosed());
+  const getActivePage = (): Page => history[history.length - 1];
+  const activate = (page: Page): Page => {
+    const existing = history.indexOf(page);
+    if (existing >= 0) {
+      history.splice(existing, 1);
+    }
+    history.push(page);
+    return page;
+  };
+
+  const sync = (): Page => {
+    const opened = browserContext.pages().filter((page) => !known.has(page));
+    opened.forEach((page) => known.add(page));
+    const newest = opened.filter((page) => !page.isClosed()).pop();
+    if (newest) {
+      return activate(newest);
+    }
+
+    while (history.length > 0 && getActivePage().isClosed()) {
+      history.pop();
+    }
+    if (history.length === 0) {
+      const fallback = openPages().pop();
+      if (!fallback) {
+        throw new Error('All tabs were closed during ai.act.');
+      }
+      history.push(fallback);
+    }
+    return getActivePage();
+  };
+
+  const readTitle = async (page: Page): Promise<string> => {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<undefined>((resolve) => {
+      timer = setTimeout(() => resolve(undefined), TAB_TITLE_TIMEOUT_MS);
+    });
+    const title = await Promise.race([page.title().catch(() => undefined), timedOut]);
+    clearTimeout(timer);
+    if (title !== undefined) {
+      titles.set(page, title);
+    }
+    return titles.get(page) ?? '';
+  };
+
+  const resolveTab = (index: number): Page => {
+    const page = openPages()[index];
+    if (!page) {
+      throw new Error(`No open tab at index ${index} (${openPages().length} open)`);
+    }
+    return page;
+  };
+
+  return {
+    getActivePage,
+
+    indexOf(page: Page): number {
+      return openPages().indexOf(page);
+    },
+
+    sync,
+
+    async listTabs(isBlocked?: (page: Page) => boolean): Promise<TabInfo[]> {
+      const active = getActivePage();
+      return Promise.all(
+        openPages().map(async (page, index) => ({
+          index,
+          url: page.url(),
+          title: isBlocked?.(page) ? titles.get(page) ?? '' : await readTitle(page),
+          active: page === active,
+        })),
+      );
+    },
+
+    async run(command: SomCommand): Promise<SemanticCommandResult> {
+      // Generated code follows the active tab by reassigning page, so later commands act on it
+      let code: string;
+      if (command.action === InteractionAction.SWITCH_TAB) {
+        const index = parseTabIndex(command);
+        const page = activate(resolveTab(index));
+        await page.bringToFront();
+        code = `page = page.context().pages()[${index}]; await page.bringToFront()`;
+      } else {
+        const active = getActivePage();
+        const index = parseTabIndex(command, openPages().indexOf(active));
+        await resolveTab(index).close();
+        const next = sync();
+        await next.bringToFront();
+        code =
+          `await page.context().pages()[${index}].close(); ` +
+          `page = page.context().pages()[${openPages().indexOf(next)}]; await page.bringToFront()`;
+      }
+
+      return {
+        failedAttempts: [],
+        successAttempt: { command: code, status: CommandRunStatus.SUCCESS },
+        status: CommandRunStatus.SUCCESS,
+      };
+    },
+  };
+}
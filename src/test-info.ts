@@ -0,0 +1,25 @@
+type TestInfoContext = { test?: unknown; testInfo?: unknown };
+
+/**
+ * Find the Playwright TestInfo for the running test: the one passed in the context when it has
+ * the members the caller needs, otherwise test.info().
+ */
+export function resolveTestInfo<T extends object>(
+  context: TestInfoContext,
+  isUsable: (value: unknown) => value is T,
+): T | undefined {
+  if (isUsable(context.testInfo)) {
+    return context.testInfo;
+  }
+  const testObj = context.test as { info?: unknown } | undefined;
+  if (typeof testObj?.info !== 'function') {
+    return undefined;
+  }
+  try {
+    const info = testObj.info();
+    return isUsable(info) ? info : undefined;
+  } catch {
+    // test.info() throws outside of a running test
+    return undefined;
+  }
+}
@@ -0,0 +1,125 @@
+import { test as base, expect } from '@playwright/test';
+import type { Page } from '@playwright/test';
+import type { AiConfig } from './ai-config';
+import { createAi } from './index';
+import type { ActContext, AiClient, ExtractOptions, VerifyContext, VerifyOptions, WaitUntilOptions } from './index';
+import type { JsonSchema, SchemaParser } from './json-schema';
+import { isArtifactsEnabled } from './report-artifacts';
+import type {
+  AiActResult,
+  AiExtractResult,
+  AiUsage,
+  AiVerifyAllResult,
+  AiVerifyResult,
+  AiWaitUntilResult,
+} from './types';
+import { getTestUsage } from './usage';
+
+const LOG_ATTACHMENT_NAME = 'ai-wright log';
+
+// Per-call overrides; page, test, testInfo, expect and logger default to the fixture's
+export type TestActContext = Partial<ActContext>;
+export type TestVerifyContext = Partial<VerifyContext>;
+
+/**
+ * The ai object injected by the fixture. Same calls as ai.*, without the context argument.
+ */
+export interface TestAi {
+  act(objective: string, context?: TestActContext): Promise<AiActResult>;
+  verify(requirement: string, options?: VerifyOptions, context?: TestVerifyContext): Promise<AiVerifyResult>;
+  verifyAll(requirements: string[], options?: VerifyOptions, context?: TestVerifyContext): Promise<AiVerifyAllResult>;
+  waitUntil(condition: string, options?: WaitUntilOptions, context?: TestVerifyContext): Promise<AiWaitUntilResult>;
+  locate(description: string, context?: TestVerifyContext): ReturnType<AiClient['locate']>;
+  extract<T>(
+    requirement: string,
+    options: ExtractOptions & { schema: SchemaParser<T>; include_usage: true },
+    context?: TestVerifyContext,
+  ): Promise<AiExtractResult<T>>;
+  extract<T>(
+    requirement: string,
+    options: ExtractOptions & { schema: SchemaParser<T> },
+    context?: TestVerifyContext,
+  ): Promise<T>;
+  extract<T = unknown>(
+    requirement: string,
+    options: ExtractOptions & { schema: JsonSchema; include_usage: true },
+    context?: TestVerifyContext,
+  ): Promise<AiExtractResult<T>>;
+  extract<T = unknown>(
+    requirement: string,
+    options: ExtractOptions & { schema: JsonSchema },
+    context?: TestVerifyContext,
+  ): Promise<T>;
+  extract(
+    requirement: string,
+    options: ExtractOptions & { include_usage: true },
+    context?: TestVerifyContext,
+  ): Promise<AiExtractResult>;
+  extract(
+    requirement: string,
+    options?: ExtractOptions,
+    context?: TestVerifyContext,
+  ): Promise<string | string[] | number | number[]>;
+  /** The same client bound to another page (a popup, a second browser context). */
+  on(page: Page): TestAi;
+  /** Token usage and cost of all ai.* calls in this test so far. */
+  usage(): AiUsage | undefined;
+  /** Value of a registered secret, as used by generated code. */
+  secret(name: string): string;
+}
+
+export type AiWrightOptions = {
+  // Set per project with use: { aiWright: { provider, timeouts, retries, ... } } in playwright.config
+  aiWright: AiConfig;
+};
+
+export type AiWrightFixtures = {
+  ai: TestAi;
+};
+
+function bindTestAi(client: AiClient, defaults: ActContext, testInfo: object): TestAi {
+  // ActContext carries every VerifyContext field, so one merge serves all calls
+  const withDefaults = (context?: TestActContext): ActContext => ({
+    ...defaults,
+    ...context,
+    page: context?.page ?? defaults.page,
+  });
+
+  return {
+    act: (objective, context) => client.act(objective, withDefaults(context)),
+    verify: (requirement, options, context) => client.verify(requirement, withDefaults(context), options),
+    verifyAll: (requirements, options, context) => client.verifyAll(requirements, withDefaults(context), options),
+    waitUntil: (condition, options, context) => client.waitUntil(condition, withDefaults(context), options),
+    locate: (description, context) => client.locate(description, withDefaults(context)),
+    extract: ((requirement: string, options?: ExtractOptions, context?: TestVerifyContext) =>
+      client.extract(requirement, withDefaults(context), options)) as TestAi['extract'],
+    on: (page) => bindTestAi(client, { ...defaults, page }, testInfo),
+    usage: () => getTestUsage(testInfo),
+    secret: (name) => client.secret(name),
+  };
+}
+
+/**
+ * Playwright test with an ai fixture wired to the test's page, testInfo and expect:
+ *
+ *   import { test, expect } from 'ai-wright/test';
+ *   test('login', async ({ ai }) => { await ai.act('Log in as the demo user'); });
+ */
+export const test = base.extend<AiWrightOptions & AiWrightFixtures>({
+  aiWright: [{}, { option: true }],
+
+  ai: async ({ page, aiWright }, use, testInfo) => {
+    // Without a configured logger the lines go to the report instead of the console
+    const lines: string[] = [];
+    const logger = aiWright.logger ?? ((message: string) => lines.push(message));
+    const client = createAi({ ...aiWright, logger });
+
+    await use(bindTestAi(client, { page, test: base, testInfo, expect, logger }, testInfo));
+
+    if (lines.length > 0 && isArtifactsEnabled()) {
+      await testInfo.attach(LOG_ATTACHMENT_NAME, { body: lines.join('\n'), contentType: 'text/plain' });
+    }
+  },
+});
+
+export { expect };
@@ -0,0 +1,11 @@
+// Helpers for testing ai.* flows offline: a scripted LLM provider and local HTML pages
+export { createMockProvider } from './llm-providers/mock-provider';
+export type {
+  MockLLMProvider,
+  MockLLMReply,
+  MockLLMResponder,
+  MockProviderOptions,
+} from './llm-providers/mock-provider';
+export { startHtmlServer } from './html-fixtures';
+export type { HtmlFixtureServer, HtmlRoute, HtmlRoutes } from './html-fixtures';
+export { resetProviderCacheForTesting } from './llm-providers/provider-registry';
@@ -1,8 +1,10 @@
+import type { Page } from '@playwright/test';
 import {
   CommandRunStatus,
   InteractionAction,
   SomCommand,
   SemanticCommandResult,
+  SomVerification,
 } from './som-types';
 
 export {
@@ -23,10 +25,22 @@ export type {
   VerificationType,
 } from './som-types';
 
+export interface RequirementVerification {
+  index: number;
+  verificationSuccess: boolean;
+  confidence: number;
+  verificationReason?: string;
+}
+
 export interface AiActionResult {
   preCommands?: SomCommand[];
   extractedContentList?: string[];
   extractedContent?: string;
+  extractedData?: unknown;  // Schema-shaped value for ai.extract with a schema
+  requirementResults?: RequirementVerification[];  // ai.verifyAll: one entry per requirement index
+  verifications?: SomVerification[];  // ai.verify with assertions: DOM checks backing the verdict
+  elementRef?: string;  // ai.locate: SoM ID of the described element, empty when nothing matches
+  notFoundReason?: string;
   confidence?: number;
   verificationSuccess?: boolean;
   verificationReason?: string;
@@ -37,10 +51,88 @@ export interface AiActionResult {
   requestSomRefresh?: boolean;
   somRefreshReason?: string;
   stepCompleted?: boolean;
+  requiresFurtherAction?: boolean;  // Only part of the objective was possible with the returned commands
+  completedObjectiveSummary?: string;
+  nextObjective?: string;  // Remaining work when requiresFurtherAction is set
+}
+
+export interface AiUsage {
+  llm_calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  image_tokens?: number;  // Included in input_tokens; absent unless the provider reports it (currently Gemini only)
+  estimated_cost_usd?: number;  // Present when a price table entry matched the model or provider
+}
+
+export interface AiActSubStep {
+  objective: string;  // The original objective for the first sub-step, the LLM's nextObjective afterwards
+  summary?: string;  // The LLM's completedObjectiveSummary for this sub-step
 }
 
 export interface AiActResult {
   command_results: SemanticCommandResult[];
   status: CommandRunStatus;
   error?: string;
+  cache_hit?: boolean;  // true when the objective was replayed from the ai.act cache without an LLM call
+  playwright_code?: string;  // deterministic Playwright snippet, populated when codegen is enabled
+  provider?: string;  // LLM provider that answered the last call (absent on cache hits)
+  usage?: AiUsage;  // Tokens consumed by this call across all LLM iterations
+  active_page?: Page;  // Tab the objective ended on; differs from context.page when a popup or new tab took over
+  active_page_index?: number;  // Index of active_page among the open tabs of the browser context
+  downloads?: AiDownload[];  // Files downloaded by the executed commands, saved under the test output directory
+  sub_steps?: AiActSubStep[];  // Present when the LLM split the objective into several sub-steps
+  recovered_failures?: SemanticCommandResult[];  // Failed commands the LLM was re-prompted after; not in command_results
+}
+
+export interface AiDownload {
+  path: string;  // Where the file was saved
+  suggested_filename: string;
+  url: string;
+}
+
+export interface AiAssertion {
+  description?: string;
+  playwright_code: string;  // The expect(...) statement that was run; empty when no locator could be built
+  passed: boolean;
+  error?: string;
+}
+
+export interface AiVerifyResult {
+  verificationSuccess: boolean;
+  confidence: number;
+  verificationReason?: string;
+  provider: string;
+  usage: AiUsage;
+  assertions?: AiAssertion[];  // DOM-level checks run for the requirement, populated when assertions is set
+  playwright_code?: string;  // The assertions as a ready-to-paste snippet
+}
+
+export interface AiWaitUntilResult {
+  confidence: number;
+  verificationReason?: string;
+  attempts: number;  // Screenshots evaluated before the condition held
+  elapsed_ms: number;
+  provider: string;
+  usage: AiUsage;
+}
+
+export interface AiRequirementResult {
+  requirement: string;
+  verificationSuccess: boolean;
+  confidence: number;
+  verificationReason?: string;
+}
+
+export interface AiVerifyAllResult {
+  passed: boolean;  // true when every requirement passed
+  results: AiRequirementResult[];  // In the order the requirements were given
+  provider: string;
+  usage: AiUsage;
+}
+
+export interface AiExtractResult<T = string | string[] | number | number[]> {
+  value: T;
+  provider: string;
+  usage: AiUsage;
+  confidence?: number;  // Reported when confidence_threshold was set
 }
@@ -0,0 +1,43 @@
+import path from 'path';
+import { InteractionAction, SomCommand } from './som-types';
+
+function splitRequestedFiles(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(/[,\n]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function matchAllowedFile(requested: string, allowedFiles: string[]): string {
+  const exact = allowedFiles.find((file) => file === requested);
+  if (exact) {
+    return exact;
+  }
+  // Models often shorten a listed path to its file name
+  const byName = allowedFiles.filter((file) => path.basename(file) === path.basename(requested));
+  if (byName.length === 1) {
+    return byName[0];
+  }
+  if (byName.length > 1) {
+    throw new Error(`Upload file "${requested}" is ambiguous; use one of: ${byName.join(', ')}`);
+  }
+  throw new Error(`Upload file "${requested}" is not in the allowed files (context.files)`);
+}
+
+/**
+ * Resolve the files the LLM picked for an upload command against the caller's allowlist.
+ * Other commands are returned unchanged.
+ */
+export function resolveUploadCommand(command: SomCommand, allowedFiles: string[] | undefined): SomCommand {
+  if (command.action !== InteractionAction.UPLOAD) {
+    return command;
+  }
+  if (!allowedFiles || allowedFiles.length === 0) {
+    throw new Error('upload requires the files that may be uploaded in context.files');
+  }
+  const requested = splitRequestedFiles(command.value);
+  if (requested.length === 0) {
+    throw new Error('upload requires file paths from the allowed files in value');
+  }
+  return { ...command, filePaths: requested.map((file) => matchAllowedFile(file, allowedFiles)) };
+}
@@ -0,0 +1,182 @@
+import { debugLog } from './ai-client';
+import { resolveTestInfo } from './test-info';
+import type { LLMUsage } from './llm-providers/llm-provider';
+import type { AiUsage } from './types';
+
+const PRICE_TABLE_ENV = 'AI_PLAYWRIGHT_PRICE_TABLE';
+const USAGE_ANNOTATION_TYPE = 'ai-usage';
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+// USD per 1M tokens. Image tokens are part of input tokens and billed at the input price.
+export interface TokenPrice {
+  input: number;
+  output: number;
+}
+
+// Keyed by model id (e.g. "gpt-5-mini") or, as a fallback, provider name (e.g. "openai")
+export type PriceTable = Record<string, TokenPrice>;
+
+export interface UsageSample {
+  provider: string;
+  model?: string;
+  usage?: LLMUsage;
+}
+
+type TestAnnotation = { type: string; description?: string };
+
+export type UsageTestInfo = { annotations: TestAnnotation[] };
+
+let priceTableOverride: PriceTable | undefined;
+let envPriceTableCache: { raw: string; table: PriceTable } | undefined;
+const testUsage = new WeakMap<object, AiUsage>();
+
+function isTokenPrice(value: unknown): value is TokenPrice {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { input, output } = value as Record<string, unknown>;
+  return typeof input === 'number' && Number.isFinite(input) && typeof output === 'number' && Number.isFinite(output);
+}
+
+function parsePriceTable(raw: string): PriceTable {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    debugLog(`Ignoring ${PRICE_TABLE_ENV}: not valid JSON`, { error: (error as Error).message });
+    return {};
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    debugLog(`Ignoring ${PRICE_TABLE_ENV}: expected an object keyed by model or provider`);
+    return {};
+  }
+
+  const table: PriceTable = {};
+  for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (isTokenPrice(value)) {
+      table[key] = { input: value.input, output: value.output };
+    } else {
+      debugLog(`Ignoring ${PRICE_TABLE_ENV} entry without numeric input/output prices`, { key });
+    }
+  }
+  return table;
+}
+
+function getPriceTable(): PriceTable {
+  if (priceTableOverride) {
+    return priceTableOverride;
+  }
+  const raw = process.env[PRICE_TABLE_ENV]?.trim();
+  if (!raw) {
+    return {};
+  }
+  if (envPriceTableCache?.raw !== raw) {
+    envPriceTableCache = { raw, table: parsePriceTable(raw) };
+  }
+  return envPriceTableCache.table;
+}
+
+/**
+ * Replace the price table used for cost estimates. Pass undefined to fall back to AI_PLAYWRIGHT_PRICE_TABLE.
+ */
+export function setPriceTable(table: PriceTable | undefined): void {
+  priceTableOverride = table ? { ...table } : undefined;
+}
+
+function resolveTokenPrice(sample: UsageSample): TokenPrice | undefined {
+  const table = getPriceTable();
+  return (sample.model ? table[sample.model] : undefined) ?? table[sample.provider];
+}
+
+export function createEmptyUsage(): AiUsage {
+  return { llm_calls: 0, input_tokens: 0, output_tokens: 0 };
+}
+
+function addSample(target: AiUsage, sample: UsageSample): void {
+  target.llm_calls += 1;
+  if (!sample.usage) {
+    return;
+  }
+  target.input_tokens += sample.usage.inputTokens;
+  target.output_tokens += sample.usage.outputTokens;
+  // Only Gemini breaks the input down by modality; an unknown count stays absent rather than 0
+  if (sample.usage.imageTokens !== undefined) {
+    target.image_tokens = (target.image_tokens ?? 0) + sample.usage.imageTokens;
+  }
+
+  const price = resolveTokenPrice(sample);
+  if (price) {
+    const cost = (sample.usage.inputTokens * price.input + sample.usage.outputTokens * price.output) / TOKENS_PER_PRICE_UNIT;
+    target.estimated_cost_usd = (target.estimated_cost_usd ?? 0) + cost;
+  }
+}
+
+function formatUsage(usage: AiUsage): string {
+  const parts = [
+    `${usage.llm_calls} LLM call${usage.llm_calls === 1 ? '' : 's'}`,
+    `${usage.input_tokens.toLocaleString('en-US')} input / ${usage.output_tokens.toLocaleString('en-US')} output tokens`,
+  ];
+  if (usage.estimated_cost_usd !== undefined) {
+    parts.push(`~$${usage.estimated_cost_usd.toFixed(4)}`);
+  }
+  return parts.join(', ');
+}
+
+function hasAnnotations(value: unknown): value is UsageTestInfo {
+  return typeof value === 'object' && value !== null && Array.isArray((value as UsageTestInfo).annotations);
+}
+
+export function resolveUsageTestInfo(context: { test?: unknown; testInfo?: unknown }): UsageTestInfo | undefined {
+  return resolveTestInfo(context, hasAnnotations);
+}
+
+function recordTestUsage(testInfo: UsageTestInfo, sample: UsageSample): void {
+  let totals = testUsage.get(testInfo);
+  if (!totals) {
+    totals = createEmptyUsage();
+    testUsage.set(testInfo, totals);
+  }
+  addSample(totals, sample);
+
+  const description = formatUsage(totals);
+  const annotation = testInfo.annotations.find((entry) => entry.type === USAGE_ANNOTATION_TYPE);
+  if (annotation) {
+    annotation.description = description;
+  } else {
+    testInfo.annotations.push({ type: USAGE_ANNOTATION_TYPE, description });
+  }
+}
+
+/**
+ * Total usage of all AI steps that ran in the given test so far.
+ */
+export function getTestUsage(testInfo: object): AiUsage | undefined {
+  const totals = testUsage.get(testInfo);
+  return totals ? { ...totals } : undefined;
+}
+
+export interface UsageTracker {
+  record(sample: UsageSample): void;
+  getTotals(): AiUsage;
+}
+
+/**
+ * Accumulates the LLM usage of one ai.* call and mirrors every sample into the per-test totals,
+ * so failed steps are still accounted for in the report.
+ */
+export function createUsageTracker(testInfo?: UsageTestInfo): UsageTracker {
+  const totals = createEmptyUsage();
+
+  return {
+    record(sample: UsageSample): void {
+      addSample(totals, sample);
+      if (testInfo) {
+        recordTestUsage(testInfo, sample);
+      }
+    },
+
+    getTotals(): AiUsage {
+      return { ...totals };
+    },
+  };
+}
@@ -0,0 +1,336 @@
+import { promises as fs } from 'fs';
+import { test, expect } from '@playwright/test';
+import type { LLMRequest } from '../src/llm-providers/llm-provider';
+import { createAi } from '../src/index';
+import { createMockProvider, startHtmlServer } from '../src/testing';
+import type { HtmlFixtureServer } from '../src/testing';
+
+let server: HtmlFixtureServer;
+
+test.beforeAll(async () => {
+  server = await startHtmlServer();
+});
+
+test.afterAll(async () => {
+  await server.close();
+});
+
+// SoM ids are assigned per run, so the scripted answers look them up in the element map
+function refFor(request: LLMRequest, text: string): string {
+  const match = request.userPrompt.match(new RegExp(`\\[(\\d+)\\]: \\w+ "${text}`));
+  if (!match) {
+    throw new Error(`No SoM element with text "${text}" in the prompt.`);
+  }
+  return match[1];
+}
+
+test('shouldWait re-prompts once the page has settled', async ({ page }) => {
+  server.route(
+    '/slow',
+    `<p id="status">Loading...</p>
+     <script>
+       setTimeout(() => {
+         const button = document.createElement('button');
+         button.textContent = 'Save';
+         button.onclick = () => { document.getElementById('status').textContent = 'Saved'; };
+         document.body.appendChild(button);
+       }, 300);
+     </script>`,
+  );
+  const provider = createMockProvider({
+    responses: (request, callIndex) =>
+      callIndex === 0
+        ? { shouldWait: true, waitReason: 'Save button not rendered yet' }
+        : { commandsToRun: [{ action: 'click', elementRef: refFor(request, 'Save') }] },
+  });
+  const ai = createAi({ provider });
+
+  await page.goto(server.url('/slow'));
+  const result = await ai.act('Click Save', { page, test, cache: false });
+
+  expect(result.status).toBe('success');
+  expect(provider.requests).toHaveLength(2);
+  expect(provider.requests[1].userPrompt).toContain('Save button not rendered yet');
+  await expect(page.locator('#status')).toHaveText('Saved');
+});
+
+test('requestSomRefresh re-annotates the page before the next prompt', async ({ page }) => {
+  server.route('/refresh', '<p id="status">Idle</p>');
+  const provider = createMockProvider({
+    responses: async (request, callIndex) => {
+      if (callIndex === 0) {
+        // The element appears after the screenshot was taken, so the map sent so far misses it
+        await page.evaluate(() => {
+          const button = document.createElement('button');
+          button.textContent = 'Refresh';
+          button.onclick = () => {
+            document.getElementById('status')!.textContent = 'Refreshed';
+          };
+          document.body.appendChild(button);
+        });
+        return { requestSomRefresh: true, somRefreshReason: 'Labels are stale' };
+      }
+      return { commandsToRun: [{ action: 'click', elementRef: refFor(request, 'Refresh') }] };
+    },
+  });
+  const ai = createAi({ provider });
+
+  await page.goto(server.url('/refresh'));
+  const result = await ai.act('Click Refresh', { page, test, cache: false });
+
+  expect(result.status).toBe('success');
+  expect(provider.requests).toHaveLength(2);
+  expect(provider.requests[0].userPrompt).not.toContain('"Refresh');
+  await expect(page.locator('#status')).toHaveText('Refreshed');
+});
+
+test('needsRetryAfterPreActions runs the pre-commands and prompts again', async ({ page }) => {
+  server.route(
+    '/consent',
+    `<div id="banner"><button onclick="document.getElementById('banner').remove()">Accept cookies</button></div>
+     <button onclick="document.getElementById('status').textContent = 'Continued'">Continue</button>
+     <p id="status">Waiting</p>`,
+  );
+  const provider = createMockProvider({
+    responses: (request, callIndex) =>
+      callIndex === 0
+        ? {
+            preCommands: [{ action: 'click', elementRef: refFor(request, 'Accept cookies') }],
+            needsRetryAfterPreActions: true,
+          }
+        : { commandsToRun: [{ action: 'click', elementRef: refFor(request, 'Continue') }] },
+  });
+  const ai = createAi({ provider });
+
+  await page.goto(server.url('/consent'));
+  const result = await ai.act('Click Continue', { page, test, cache: false });
+
+  expect(result.status).toBe('success');
+  expect(provider.requests).toHaveLength(2);
+  expect(provider.requests[1].userPrompt).not.toContain('Accept cookies');
+  expect(result.command_results).toHaveLength(2);
+  await expect(page.locator('#banner')).toHaveCount(0);
+  await expect(page.locator('#status')).toHaveText('Continued');
+});
+
+for (const [action, outcome] of [
+  ['acceptDialog', 'Deleted'],
+  ['dismissDialog', 'Kept'],
+] as const) {
+  test(`${action} answers a confirm() opened by a command`, async ({ page }) => {
+    server.route(
+      '/confirm',
+      `<button onclick="document.getElementById('status').textContent = confirm('Delete item?') ? 'Deleted' : 'Kept'">Delete</button>
+       <p id="status">Pending</p>`,
+    );
+    const provider = createMockProvider({
+      responses: (request, callIndex) =>
+        callIndex === 0
+          ? { commandsToRun: [{ action: 'click', elementRef: refFor(request, 'Delete') }] }
+          : { commandsToRun: [{ action }] },
+    });
+    const ai = createAi({ provider });
+
+    await page.goto(server.url('/confirm'));
+    const result = await ai.act('Delete the item', { page, test, cache: false });
+
+    expect(result.status).toBe('success');
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[1].userPrompt).toContain('OPEN DIALOG');
+    expect(provider.requests[1].userPrompt).toContain('message: Delete item?');
+    expect(result.command_results.map((commandResult) => commandResult.successAttempt?.command)).toContain(
+      action === 'acceptDialog' ? "page.once('dialog', (dialog) => dialog.accept())" : "page.once('dialog', (dialog) => dialog.dismiss())",
+    );
+    await expect(page.locator('#status')).toHaveText(outcome);
+  });
+}
+
+test('follows a popup and closes it again with closeTab', async ({ page }) => {
+  server.route('/tabs', '<a href="/help" target="_blank">Open help</a>');
+  server.route('/help', '<h1>Help</h1><button onclick="this.textContent = \'Thanks\'">Got it</button>');
+  const answers = [
+    (request: LLMRequest) => ({
+      commandsToRun: [{ action: 'click', elementRef: refFor(request, 'Open help') }],
+      requiresFurtherAction: true,
+      nextObjective: 'Click Got it',
+    }),
+    (request: LLMRequest) => ({ commandsToRun: [{ action: 'click', elementRef: refFor(request, 'Got it') }] }),
+    () => ({ commandsToRun: [{ action: 'closeTab', value: '1' }] }),
+  ];
+  const scripted = createMockProvider({ responses: (request, callIndex) => answers[callIndex](request) });
+  const ai = createAi({ provider: scripted, codegen: true });
+
+  await page.goto(server.url('/tabs'));
+  const opened = await ai.act('Open help and click Got it', { page, test, cache: false });
+
+  expect(opened.active_page_index).toBe(1);
+  expect(opened.active_page?.url()).toBe(server.url('/help'));
+  await expect(opened.active_page!.locator('button')).toHaveText('Thanks');
+  expect(opened.playwright_code).toContain(
+    "page = page.context().pages()[1] ?? (await page.context().waitForEvent('page'));",
+  );
+
+  const closed = await ai.act('Close the help tab', { page, test, cache: false });
+
+  expect(scripted.requests[2].userPrompt).toContain('OPEN TABS');
+  expect(closed.active_page_index).toBe(0);
+  expect(page.context().pages()).toHaveLength(1);
+  expect(closed.playwright_code).toContain('await page.context().pages()[1].close();');
+  expect(closed.playwright_code).toContain('page = page.context().pages()[0];');
+});
+
+test('uploads only files listed in context.files', async ({ page }, testInfo) => {
+  server.route(
+    '/upload',
+    `<input type="file" id="file" aria-label="Attachment"
+       onchange="document.getElementById('status').textContent = this.files[0].name">
+     <p id="status">No file</p>`,
+  );
+  const allowed = testInfo.outputPath('report.csv');
+  await fs.writeFile(allowed, 'id,total\n1,42\n');
+  const provider = createMockProvider({
+    responses: (request, callIndex) => ({
+      commandsToRun: [
+        {
+          action: 'upload',
+          elementRef: request.userPrompt.match(/\[(\d+)\]: input/)![1],
+          value: callIndex === 0 ? 'report.csv' : '/etc/passwd',
+        },
+      ],
+    }),
+  });
+  const ai = createAi({ provider });
+
+  await page.goto(server.url('/upload'));
+  const result = await ai.act('Attach the report', { page, test, cache: false, files: [allowed] });
+
+  expect(result.status).toBe('success');
+  expect(provider.requests[0].userPrompt).toContain(`- ${allowed}`);
+  await expect(page.locator('#status')).toHaveText('report.csv');
+
+  await expect(ai.act('Attach the password file', { page, test, cache: false, files: [allowed] })).rejects.toThrow(
+    'not in the allowed files',
+  );
+});
+
+test('saves downloads started by a command', async ({ page }) => {
+  server.route('/export', '<a href="/orders.csv">Export CSV</a>');
+  server.route('/orders.csv', {
+    body: 'id,total\n1,42\n',
+    contentType: 'text/csv',
+    headers: { 'Content-Disposition': 'attachment; filename="orders.csv"' },
+  });
+  const provider = createMockProvider({
+    responses: (request) => ({ commandsToRun: [{ action: 'click', elementRef: refFor(request, 'Export CSV') }] }),
+  });
+  const ai = createAi({ provider });
+
+  await page.goto(server.url('/export'));
+  const result = await ai.act('Export the orders as CSV', { page, test, cache: false });
+
+  expect(result.downloads).toHaveLength(1);
+  expect(result.downloads![0].suggested_filename).toBe('orders.csv');
+  expect(await fs.readFile(result.downloads![0].path, 'utf8')).toBe('id,total\n1,42\n');
+});
+
+test('replays the act cache, and continues with the LLM after a partial replay', async ({ page }, testInfo) => {
+  const previousCacheDir = process.env.AI_PLAYWRIGHT_ACT_CACHE_DIR;
+  process.env.AI_PLAYWRIGHT_ACT_CACHE_DIR = testInfo.outputPath('act-cache');
+  try {
+    const markup = (second: string) =>
+      `<button onclick="this.textContent = 'Done one'">Step one</button>
+       <button onclick="this.textContent = 'Done two'">${second}</button>`;
+    server.route('/cached', markup('Step two'));
+    const provider = createMockProvider({
+      responses: (request) =>
+        request.userPrompt.includes('already done from the replay cache')
+          ? { commandsToRun: [{ action: 'click', elementRef: refFor(request, 'Step 2') }] }
+          : {
+              commandsToRun: [
+                { action: 'click', elementRef: refFor(request, 'Step one') },
+                { action: 'click', elementRef: refFor(request, 'Step two') },
+              ],
+            },
+    });
+    // Keeps the failing replay step short
+    const ai = createAi({ provider, timeouts: { command: 1_000 } });
+
+    await page.goto(server.url('/cached'));
+    const recorded = await ai.act('Run both steps', { page, test });
+    expect(recorded.cache_hit).toBeFalsy();
+    expect(provider.requests).toHaveLength(1);
+
+    await page.goto(server.url('/cached'));
+    const replayed = await ai.act('Run both steps', { page, test });
+    expect(replayed.cache_hit).toBe(true);
+    expect(provider.requests).toHaveLength(1);
+    await expect(page.getByRole('button')).toHaveText(['Done one', 'Done two']);
+
+    // The second button was renamed, so only the first cached step still replays
+    server.route('/cached', markup('Step 2'));
+    await page.goto(server.url('/cached'));
+    const partial = await ai.act('Run both steps', { page, test });
+
+    expect(partial.cache_hit).toBeFalsy();
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[1].userPrompt).toContain('already done from the replay cache');
+    expect(partial.command_results).toHaveLength(2);
+    await expect(page.getByRole('button')).toHaveText(['Done one', 'Done two']);
+  } finally {
+    if (previousCacheDir === undefined) {
+      delete process.env.AI_PLAYWRIGHT_ACT_CACHE_DIR;
+    } else {
+      process.env.AI_PLAYWRIGHT_ACT_CACHE_DIR = previousCacheDir;
+    }
+  }
+});
+
+test('nextObjective continues on the next screen and reports sub-steps', async ({ page }) => {
+  server.route(
+    '/wizard',
+    `<button onclick="this.remove(); document.getElementById('finish').hidden = false">Next</button>
+     <button id="finish" hidden onclick="this.textContent = 'Finished'">Finish</button>`,
+  );
+  const provider = createMockProvider({
+    responses: (request, callIndex) =>
+      callIndex === 0
+        ? {
+            commandsToRun: [{ action: 'click', elementRef: refFor(request, 'Next') }],
+            requiresFurtherAction: true,
+            completedObjectiveSummary: 'Opened the last page',
+            nextObjective: 'Click Finish',
+          }
+        : {
+            commandsToRun: [{ action: 'click', elementRef: refFor(request, 'Finish') }],
+            completedObjectiveSummary: 'Finished the wizard',
+          },
+  });
+  const ai = createAi({ provider });
+
+  await page.goto(server.url('/wizard'));
+  const result = await ai.act('Complete the wizard', { page, test, cache: false });
+
+  expect(provider.requests[1].userPrompt).toContain('Click Finish (remaining part of: Complete the wizard)');
+  expect(result.sub_steps).toEqual([
+    { objective: 'Complete the wizard', summary: 'Opened the last page' },
+    { objective: 'Click Finish', summary: 'Finished the wizard' },
+  ]);
+  await expect(page.locator('#finish')).toHaveText('Finished');
+});
+
+test('targets elements inside an iframe', async ({ page }) => {
+  server.route('/checkout', '<h1>Checkout</h1><iframe id="payment" src="/payment-frame"></iframe>');
+  server.route('/payment-frame', '<button onclick="this.textContent = \'Paid\'">Pay now</button>');
+  const provider = createMockProvider({
+    responses: (request) => ({ commandsToRun: [{ action: 'click', elementRef: refFor(request, 'Pay now') }] }),
+  });
+  const ai = createAi({ provider });
+
+  await page.goto(server.url('/checkout'));
+  await page.frameLocator('#payment').getByRole('button').waitFor();
+  const result = await ai.act('Pay', { page, test, cache: false });
+
+  expect(result.status).toBe('success');
+  expect(provider.requests[0].userPrompt).toMatch(/button "Pay now" \(.*frame: "#payment"/);
+  await expect(page.frameLocator('#payment').getByRole('button')).toHaveText('Paid');
+});
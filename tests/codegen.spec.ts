@@ -0,0 +1,30 @@
+import { test, expect } from '@playwright/test';
+import { buildPlaywrightSnippet, isPortableSnippet } from '../src/codegen';
+
+test.describe('buildPlaywrightSnippet', () => {
+  test('emits tab switches as code that reassigns page', () => {
+    const snippet = buildPlaywrightSnippet('Open the help popup and close it', [
+      "await page.getByRole('link', {name: 'Help'}).click({ timeout: 5000 }) (with force)",
+      "page = page.context().pages()[1] ?? (await page.context().waitForEvent('page')); await page.bringToFront()",
+      'await page.context().pages()[1].close(); page = page.context().pages()[0]; await page.bringToFront()',
+    ]);
+
+    expect(snippet.split('\n')).toEqual([
+      '// ai.act: Open the help popup and close it',
+      "await page.getByRole('link', {name: 'Help'}).click({ timeout: 5000 });",
+      "page = page.context().pages()[1] ?? (await page.context().waitForEvent('page'));",
+      'await page.bringToFront();',
+      'await page.context().pages()[1].close();',
+      'page = page.context().pages()[0];',
+      'await page.bringToFront();',
+    ]);
+    expect(isPortableSnippet(snippet)).toBe(true);
+  });
+
+  test('marks steps without portable code so the spec is not rewritten', () => {
+    const snippet = buildPlaywrightSnippet('Click the canvas', ["await page.locator('[tc-som-id=\"4\"]').click()"]);
+
+    expect(snippet).toContain('// TODO(ai-wright): no portable code for:');
+    expect(isPortableSnippet(snippet)).toBe(false);
+  });
+});
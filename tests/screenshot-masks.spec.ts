@@ -0,0 +1,22 @@
+import { test, expect } from '@playwright/test';
+import { resolveScreenshotMasks } from '../src/screenshot-masks';
+import { registerSecret } from '../src/secrets';
+
+test('masks selectors and secrets inside iframes', async ({ page }) => {
+  registerSecret('FRAME_CARD_HOLDER', 'Jane Q. Cardholder');
+  await page.setContent(`
+    <p class="account">Account 42</p>
+    <iframe srcdoc="<input type='password' value='pw'><p>Jane Q. Cardholder</p><p class='account'>Account 43</p>"></iframe>
+  `);
+  const frame = page.frames()[1];
+  await frame.waitForSelector('input');
+
+  const masks = await resolveScreenshotMasks(page, {
+    screenshot: { mask: ['.account'], mask_sensitive: true, mask_secrets: true },
+  });
+
+  const counts = await Promise.all(masks.map((mask) => mask.count()));
+  // Two .account paragraphs, the password field and the paragraph showing the secret
+  expect(counts.reduce((sum, count) => sum + count, 0)).toBe(4);
+  await expect(frame.locator('[data-ai-wright-secret]')).toHaveText('Jane Q. Cardholder');
+});
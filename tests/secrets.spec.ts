@@ -0,0 +1,36 @@
+import { test, expect } from '@playwright/test';
+import { buildPlaywrightSnippet } from '../src/codegen';
+import { redactSecrets, registerSecret, revealSecrets, secretsToCode } from '../src/secrets';
+
+// Registered secrets are process-wide, so each test uses its own names and values
+test.describe('secrets', () => {
+  test('redacts a plain value and reveals it again', () => {
+    registerSecret('PLAIN_PASSWORD', 'hunter2-plain');
+
+    const redacted = redactSecrets('Log in with hunter2-plain');
+
+    expect(redacted).toBe('Log in with {{secret:PLAIN_PASSWORD}}');
+    expect(revealSecrets(redacted)).toBe('Log in with hunter2-plain');
+  });
+
+  test('redacts a value with a quote and a backslash in escaped code and JSON', () => {
+    registerSecret('QUOTED_PASSWORD', "Test'Pa\\ss");
+
+    expect(redactSecrets("await page.getByLabel('Password').fill('Test\\'Pa\\\\ss')")).toBe(
+      "await page.getByLabel('Password').fill('{{secret:QUOTED_PASSWORD}}')",
+    );
+    expect(redactSecrets(JSON.stringify({ value: "Test'Pa\\ss" }))).toBe('{"value":"{{secret:QUOTED_PASSWORD}}"}');
+    expect(redactSecrets("typed Test'Pa\\ss")).toBe('typed {{secret:QUOTED_PASSWORD}}');
+  });
+
+  test('turns an escaped secret literal into ai.secret() in generated code', () => {
+    registerSecret('QUOTED_TOKEN', "it's-a-token");
+
+    expect(secretsToCode("await page.fill('#token', 'Bearer it\\'s-a-token')")).toBe(
+      "await page.fill('#token', 'Bearer ' + ai.secret('QUOTED_TOKEN'))",
+    );
+    const snippet = buildPlaywrightSnippet('Fill the token', ["await page.locator('#token').fill('it\\'s-a-token')"]);
+    expect(snippet).toContain("await page.locator('#token').fill(ai.secret('QUOTED_TOKEN'));");
+    expect(snippet).not.toContain('a-token');
+  });
+});
@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+import { createMockProvider, startHtmlServer } from '../src/testing';
+
+const request = { systemPrompt: 'system', userPrompt: 'user' };
+
+test.describe('createMockProvider', () => {
+  test('answers from the queue in order and records the requests', async () => {
+    const provider = createMockProvider({ responses: [{ stepCompleted: true }, 'not json'] });
+
+    const first = await provider.callLLM(request, { timeoutMs: 1000 });
+    const second = await provider.callLLM(request, { timeoutMs: 1000 });
+
+    expect(JSON.parse(first.content)).toEqual({ stepCompleted: true });
+    expect(second.content).toBe('not json');
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.pending()).toBe(0);
+  });
+
+  test('throws queued errors and fails when nothing is queued', async () => {
+    const provider = createMockProvider({ responses: [new Error('provider down')] });
+
+    await expect(provider.callLLM(request, { timeoutMs: 1000 })).rejects.toThrow('provider down');
+    await expect(provider.callLLM(request, { timeoutMs: 1000 })).rejects.toThrow('no response queued for call #2');
+  });
+});
+
+test.describe('startHtmlServer', () => {
+  test('serves routes added before and after start, and 404 for the rest', async () => {
+    const server = await startHtmlServer({ '/': '<h1>Home</h1>' });
+    try {
+      server.route('/later', { body: '{"ok":true}', contentType: 'application/json' });
+
+      const home = await fetch(server.url('/?tab=1'));
+      expect(await home.text()).toBe('<h1>Home</h1>');
+      const later = await fetch(server.url('later'));
+      expect(later.headers.get('content-type')).toBe('application/json');
+      expect((await fetch(server.url('/missing'))).status).toBe(404);
+    } finally {
+      await server.close();
+    }
+  });
+});